@@ -43,21 +43,102 @@ async function createIndexes(db: Db): Promise<void> {
   await db.collection('jointAccountInvites').createIndex({ invitedEmail: 1 });
   await db.collection('jointAccountInvites').createIndex({ status: 1 });
   
-  // Transactions
+  // Transactions (ids can come from offline clients, so they're enforced unique)
+  await db.collection('transactions').createIndex({ id: 1 }, { unique: true });
   await db.collection('transactions').createIndex({ jointAccountId: 1 });
   await db.collection('transactions').createIndex({ addedByUserId: 1 });
   await db.collection('transactions').createIndex({ date: -1 });
   await db.collection('transactions').createIndex({ jointAccountId: 1, date: -1 });
+  // Earlier builds filtered on $exists, which also matched null externalIds - replace that index
+  const externalIdIndex = (await db.collection('transactions').indexes())
+    .find(index => index.name === 'jointAccountId_1_externalId_1');
+  if (externalIdIndex?.partialFilterExpression?.externalId?.$exists) {
+    await db.collection('transactions').dropIndex('jointAccountId_1_externalId_1');
+  }
+  await db.collection('transactions').createIndex(
+    { jointAccountId: 1, externalId: 1 },
+    { unique: true, partialFilterExpression: { externalId: { $type: 'string' } } }
+  );
+  await db.collection('transactions').createIndex(
+    { recurringRuleId: 1, date: 1 },
+    { unique: true, partialFilterExpression: { recurringRuleId: { $exists: true } } }
+  );
+  
+  // CSV import mapping profiles
+  await db.collection('importProfiles').createIndex({ jointAccountId: 1 });
   
   // Goals
+  await db.collection('goals').createIndex({ id: 1 }, { unique: true });
   await db.collection('goals').createIndex({ jointAccountId: 1 });
+  await db.collection('goalContributions').createIndex({ goalId: 1, date: -1 });
+  await db.collection('goalContributions').createIndex({ goalId: 1, openingBalance: 1 }, { unique: true, partialFilterExpression: { openingBalance: true } });
+  await db.collection('goalContributions').createIndex(
+    { autoSaveRuleId: 1, transactionId: 1 },
+    { unique: true, partialFilterExpression: { autoSaveRuleId: { $exists: true }, transactionId: { $exists: true } } }
+  );
+  await db.collection('autoSaveRules').createIndex({ jointAccountId: 1, active: 1 });
   
   // Subscriptions
+  await db.collection('subscriptions').createIndex({ id: 1 }, { unique: true });
   await db.collection('subscriptions').createIndex({ jointAccountId: 1 });
+  await db.collection('subscriptions').createIndex({ nextBillingDate: 1 });
+  await db.collection('subscriptionCharges').createIndex(
+    { subscriptionId: 1, billingDate: 1 },
+    { unique: true }
+  );
+  await db.collection('subscriptionProposals').createIndex(
+    { jointAccountId: 1, merchantKey: 1, currency: 1 },
+    { unique: true }
+  );
+  await db.collection('subscriptionPriceChanges').createIndex({ subscriptionId: 1, effectiveDate: 1 });
+  await db.collection('subscriptionPriceChanges').createIndex({ jointAccountId: 1, effectiveDate: -1 });
+  await db.collection('subscriptionReminders').createIndex(
+    { subscriptionId: 1, billingDate: 1, daysBefore: 1, userId: 1 },
+    { unique: true }
+  );
+  
+  // Budgets (one per category per joint account)
+  await db.collection('budgets').createIndex({ jointAccountId: 1, category: 1 }, { unique: true });
+  
+  // Recurring transaction rules (the scheduler looks up due rules)
+  await db.collection('recurringRules').createIndex({ jointAccountId: 1 });
+  await db.collection('recurringRules').createIndex({ active: 1, nextRunDate: 1 });
+  
+  // Envelope budgeting
+  await db.collection('envelopes').createIndex({ jointAccountId: 1 });
+  await db.collection('envelopeAllocations').createIndex({ jointAccountId: 1 });
+  await db.collection('envelopeAllocations').createIndex({ transactionId: 1 });
+  await db.collection('envelopeTransfers').createIndex({ jointAccountId: 1, createdAt: -1 });
+  
+  // Exchange rates (looked up by currency and date)
+  await db.collection('exchangeRates').createIndex(
+    { base: 1, currency: 1, date: -1 },
+    { unique: true }
+  );
   
   // Custom categories
   await db.collection('customCategories').createIndex({ jointAccountId: 1 });
   
+  // Change log for offline sync (entries expire after CHANGE_LOG_RETENTION_DAYS)
+  await db.collection('changeLog').createIndex({ jointAccountId: 1, seq: 1 }, { unique: true });
+  await db.collection('changeLog').createIndex(
+    { createdAt: 1 },
+    { expireAfterSeconds: Number(process.env.CHANGE_LOG_RETENTION_DAYS || 30) * 24 * 60 * 60 }
+  );
+  await db.collection('changeLogCounters').createIndex({ jointAccountId: 1 }, { unique: true });
+  
+  // Trash (deleted records until TRASH_RETENTION_DAYS have passed)
+  await db.collection('trash').createIndex({ jointAccountId: 1, deletedAt: -1 });
+  await db.collection('trash').createIndex({ deletedAt: 1 });
+  
+  // Audit log (per account for admins, per record for edit history)
+  await db.collection('auditLog').createIndex({ jointAccountId: 1, createdAt: -1 });
+  await db.collection('auditLog').createIndex({ entity: 1, entityId: 1, createdAt: 1 });
+  
+  // Idempotency keys (stored responses are kept for a day)
+  await db.collection('idempotencyKeys').createIndex({ userId: 1, key: 1 }, { unique: true });
+  await db.collection('idempotencyKeys').createIndex({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+  
   console.log('✅ Database indexes created');
 }
 
@@ -9,6 +9,11 @@ import { initializePushService } from './services/pushService.js';
 import { initializeFirebase } from './services/firebaseService.js';
 import { initializeEmailService } from './services/emailService.js';
 import { initializeSocketService } from './services/socketService.js';
+import { initializeExchangeRateService } from './services/exchangeRateService.js';
+import { initializeRecurringScheduler } from './services/recurringService.js';
+import { initializeSubscriptionScheduler } from './services/subscriptionService.js';
+import { initializeGoalLedger } from './services/goalService.js';
+import { initializeTrashPurge } from './services/trashService.js';
 import {
   createJointAccountRoutes,
   createTransactionRoutes,
@@ -18,7 +23,16 @@ import {
   createPushRoutes,
   createUserRoutes,
   createAIRoutes,
-  createAuthRoutes
+  createAuthRoutes,
+  createExchangeRateRoutes,
+  createBudgetRoutes,
+  createEnvelopeRoutes,
+  createRecurringRoutes,
+  createAutoSaveRoutes,
+  createCategoryRoutes,
+  createSyncRoutes,
+  createAuditRoutes,
+  createTrashRoutes
 } from './routes/index.js';
 
 const app = express();
@@ -37,7 +51,12 @@ async function startServer() {
     initializePushService();
     initializeFirebase();
     initializeEmailService();
-    initializeSocketService(httpServer);
+    initializeSocketService(httpServer, auth);
+    initializeExchangeRateService();
+    initializeRecurringScheduler();
+    initializeSubscriptionScheduler();
+    initializeTrashPurge();
+    await initializeGoalLedger();
 
     // CORS configuration - allow production URL and Vercel preview deployments
     const allowedOrigins = [
@@ -67,8 +86,8 @@ async function startServer() {
       },
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
       credentials: true,
-      allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Origin', 'X-Requested-With'],
-      exposedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Origin', 'X-Requested-With', 'If-Match', 'Idempotency-Key'],
+      exposedHeaders: ['Content-Type', 'Authorization', 'ETag', 'Idempotent-Replayed'],
       maxAge: 86400, // Cache preflight for 24 hours
     }));
 
@@ -76,8 +95,8 @@ async function startServer() {
     // Handle all auth routes
     app.all('/api/auth/*', toNodeHandler(auth));
 
-    // JSON body parser for other routes
-    app.use(express.json());
+    // JSON body parser for other routes (raised limit for bank statement imports)
+    app.use(express.json({ limit: '10mb' }));
 
     // Health check endpoint
     app.get('/api/health', (req, res) => {
@@ -98,6 +117,15 @@ async function startServer() {
     app.use('/api/push', createPushRoutes(auth));
     app.use('/api/user', createUserRoutes(auth));
     app.use('/api/ai', createAIRoutes(auth));
+    app.use('/api/exchange-rates', createExchangeRateRoutes(auth));
+    app.use('/api/budgets', createBudgetRoutes(auth));
+    app.use('/api/envelopes', createEnvelopeRoutes(auth));
+    app.use('/api/recurring', createRecurringRoutes(auth));
+    app.use('/api/auto-save', createAutoSaveRoutes(auth));
+    app.use('/api/categories', createCategoryRoutes(auth));
+    app.use('/api/sync', createSyncRoutes(auth));
+    app.use('/api/audit', createAuditRoutes(auth));
+    app.use('/api/trash', createTrashRoutes(auth));
 
     // 404 handler
     app.use('/api/*', (req, res) => {
@@ -1,8 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
+import { IncomingHttpHeaders } from 'http';
 import { Auth } from '../config/auth.js';
 
 // Session data type
-interface SessionData {
+export interface SessionData {
   session: {
     id: string;
     userId: string;
@@ -39,12 +40,13 @@ declare global {
   }
 }
 
-// Helper to convert Express request to headers for Better Auth
-function getHeadersFromRequest(req: Request): Headers {
+// Helper to convert Node request headers to headers for Better Auth
+// (cookies and the Authorization header are copied along with the rest)
+function toFetchHeaders(rawHeaders: IncomingHttpHeaders): Headers {
   const headers = new Headers();
   
   // Copy all headers
-  for (const [key, value] of Object.entries(req.headers)) {
+  for (const [key, value] of Object.entries(rawHeaders)) {
     if (value && typeof value === 'string') {
       headers.set(key, value);
     } else if (Array.isArray(value)) {
@@ -52,16 +54,6 @@ function getHeadersFromRequest(req: Request): Headers {
     }
   }
   
-  // Ensure cookies are included
-  if (req.headers.cookie) {
-    headers.set('cookie', req.headers.cookie);
-  }
-  
-  // Also include Authorization header if present (for Bearer token auth)
-  if (req.headers.authorization) {
-    headers.set('authorization', req.headers.authorization);
-  }
-  
   return headers;
 }
 
@@ -115,6 +107,41 @@ async function verifyTokenFromDb(token: string): Promise<SessionData | null> {
   }
 }
 
+// Find the session for a request: Bearer token first, then the Better Auth session cookie.
+// Shared by the HTTP middlewares and the Socket.IO handshake.
+export async function resolveSession(
+  auth: Auth,
+  rawHeaders: IncomingHttpHeaders,
+  bearerToken?: string
+): Promise<SessionData | null> {
+  const token = bearerToken || (rawHeaders.authorization?.startsWith('Bearer ') ? rawHeaders.authorization.split(' ')[1] : undefined);
+  if (token) {
+    const sessionData = await verifyTokenFromDb(token);
+    if (sessionData) return sessionData;
+  }
+
+  const session = await auth.api.getSession({
+    headers: toFetchHeaders(rawHeaders),
+  });
+  if (!session) return null;
+
+  return {
+    session: {
+      id: session.session.id,
+      userId: session.session.userId,
+      token: session.session.token,
+      expiresAt: session.session.expiresAt,
+    },
+    user: {
+      id: session.user.id,
+      email: session.user.email,
+      name: session.user.name,
+      primaryCurrency: (session.user as any).primaryCurrency,
+      notificationsEnabled: (session.user as any).notificationsEnabled,
+    }
+  };
+}
+
 // Authentication middleware using Better Auth
 export function createAuthMiddleware(auth: Auth) {
   return async (req: Request, res: Response, next: NextFunction) => {
@@ -124,43 +151,8 @@ export function createAuthMiddleware(auth: Auth) {
       const hasBearer = !!req.headers.authorization?.startsWith('Bearer ');
       console.log('🔐 Auth check - cookies:', hasCookies ? 'present' : 'missing', '| bearer:', hasBearer ? 'present' : 'missing');
       
-      let sessionData: SessionData | null = null;
+      const sessionData = await resolveSession(auth, req.headers);
       
-      // First try Bearer token if present
-      if (hasBearer) {
-        const token = req.headers.authorization!.split(' ')[1];
-        sessionData = await verifyTokenFromDb(token);
-        if (sessionData) {
-          console.log('🔐 Auth via Bearer token for user:', sessionData.user.id);
-        }
-      }
-      
-      // Fall back to Better Auth session (cookies)
-      if (!sessionData) {
-        const headers = getHeadersFromRequest(req);
-        const session = await auth.api.getSession({
-          headers: headers,
-        });
-        if (session) {
-          sessionData = {
-            session: {
-              id: session.session.id,
-              userId: session.session.userId,
-              token: session.session.token,
-              expiresAt: session.session.expiresAt,
-            },
-            user: {
-              id: session.user.id,
-              email: session.user.email,
-              name: session.user.name,
-              primaryCurrency: (session.user as any).primaryCurrency,
-              notificationsEnabled: (session.user as any).notificationsEnabled,
-            }
-          };
-          console.log('🔐 Auth via cookies for user:', session.user.id);
-        }
-      }
-
       if (!sessionData) {
         console.log('🔐 Auth check - no session found');
         return res.status(401).json({
@@ -192,38 +184,7 @@ export function createAuthMiddleware(auth: Auth) {
 export function createOptionalAuthMiddleware(auth: Auth) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      let sessionData: SessionData | null = null;
-      
-      // Try Bearer token first
-      if (req.headers.authorization?.startsWith('Bearer ')) {
-        const token = req.headers.authorization.split(' ')[1];
-        sessionData = await verifyTokenFromDb(token);
-      }
-      
-      // Fall back to cookies
-      if (!sessionData) {
-        const headers = getHeadersFromRequest(req);
-        const session = await auth.api.getSession({
-          headers: headers,
-        });
-        if (session) {
-          sessionData = {
-            session: {
-              id: session.session.id,
-              userId: session.session.userId,
-              token: session.session.token,
-              expiresAt: session.session.expiresAt,
-            },
-            user: {
-              id: session.user.id,
-              email: session.user.email,
-              name: session.user.name,
-              primaryCurrency: (session.user as any).primaryCurrency,
-              notificationsEnabled: (session.user as any).notificationsEnabled,
-            }
-          };
-        }
-      }
+      const sessionData = await resolveSession(auth, req.headers);
 
       if (sessionData) {
         req.user = sessionData.user;
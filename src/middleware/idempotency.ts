@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from '../services/idempotencyService.js';
+
+const MAX_KEY_LENGTH = 255;
+
+// Makes a mutating route safe to retry. When the client sends an Idempotency-Key header,
+// the first response for that key is stored and replayed for repeats of the same request.
+// Requests without the header run as usual. Must come after the auth middleware.
+export async function handleIdempotencyKey(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const key = req.get('Idempotency-Key');
+  if (!key) return next();
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: 'Bad Request',
+      message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`
+    });
+  }
+
+  try {
+    const userId = req.user!.id;
+    const scope = `${req.method} ${req.baseUrl}${req.path}`;
+    const claim = await claimIdempotencyKey(userId, key, scope);
+
+    if (claim.state === 'MISMATCH') {
+      return res.status(422).json({
+        success: false,
+        error: 'Unprocessable Entity',
+        message: 'This Idempotency-Key was already used for a different request'
+      });
+    }
+
+    if (claim.state === 'IN_PROGRESS') {
+      return res.status(409).json({
+        success: false,
+        error: 'Conflict',
+        message: 'A request with this Idempotency-Key is still being processed'
+      });
+    }
+
+    if (claim.state === 'DONE') {
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(claim.record.statusCode!).json(claim.record.body);
+    }
+
+    // Store the response once the route sends it. Server errors release the key so the
+    // client can try again; anything else is a final answer for this key.
+    const json = res.json.bind(res);
+    res.json = (body: any) => {
+      const stored = res.statusCode < 500
+        ? completeIdempotencyKey(userId, key, res.statusCode, body)
+        : releaseIdempotencyKey(userId, key);
+      stored.catch(err => console.error('Idempotency key error:', err));
+      return json(body);
+    };
+
+    next();
+  } catch (error) {
+    console.error('Idempotency check error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to check idempotency key'
+    });
+  }
+}
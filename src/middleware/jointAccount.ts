@@ -115,3 +115,10 @@ export async function requireJointAccountAdmin(
     });
   }
 }
+
+// Membership check for code that isn't an Express route (services, sockets, batches)
+export async function isJointAccountMember(jointAccountId: string, userId: string): Promise<boolean> {
+  const membership = await getDb().collection<JointAccountMember>('jointAccountMembers')
+    .findOne({ jointAccountId, userId });
+  return !!membership;
+}
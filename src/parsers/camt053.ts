@@ -0,0 +1,125 @@
+import {
+  Category,
+  Currency,
+  TransactionType,
+  ImportParseResult,
+  ImportRow,
+  ImportRowError
+} from '../types/index.js';
+import { decodeEntities, fingerprintEntry } from './common.js';
+
+export function isCamt053(content: string): boolean {
+  return /camt\.053|<BkToCstmrStmt>/i.test(content.slice(0, 4000));
+}
+
+// Drop XML namespace prefixes (<ns2:Ntry> -> <Ntry>) so simple tag lookups work on any export
+function stripNamespacePrefixes(xml: string): string {
+  return xml.replace(/<(\/?)[\w-]+:/g, '<$1');
+}
+
+// First element with the given name, including its inner XML
+function findElement(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match?.[1];
+}
+
+function findAllElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), m => m[1]);
+}
+
+// Text of a nested element path, e.g. readPath(entry, 'BookgDt', 'Dt')
+function readPath(xml: string, ...path: string[]): string | undefined {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    current = current === undefined ? undefined : findElement(current, tag);
+  }
+  const text = current?.trim();
+  return text && !text.startsWith('<') ? decodeEntities(text) : undefined;
+}
+
+// Dates come as <Dt>2024-01-31</Dt> or <DtTm>2024-01-31T10:00:00</DtTm>
+function readDate(entry: string, tag: string): string | undefined {
+  const value = readPath(entry, tag, 'Dt') || readPath(entry, tag, 'DtTm');
+  return value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined;
+}
+
+// Parse ISO 20022 camt.053 bank-to-customer statements into import rows.
+// The booking date becomes the transaction date and the value date is kept alongside it.
+export function parseCamt053Statement(
+  content: string,
+  defaultCategory: Category | string = Category.OTHER
+): ImportParseResult {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const occurrences = new Map<string, number>();
+
+  if (!isCamt053(content)) {
+    return { rows, errors: [{ line: 0, message: 'File is not a valid camt.053 statement' }] };
+  }
+
+  const xml = stripNamespacePrefixes(content);
+  let line = 0;
+
+  for (const statement of findAllElements(xml, 'Stmt')) {
+    const account = readPath(statement, 'Acct', 'Id', 'IBAN') || readPath(statement, 'Acct', 'Id', 'Othr', 'Id');
+
+    for (const entry of findAllElements(statement, 'Ntry')) {
+      line++;
+
+      // Pending / information-only entries are not final yet - only import booked ones
+      const status = readPath(entry, 'Sts', 'Cd') || readPath(entry, 'Sts');
+      if (status && status !== 'BOOK') continue;
+
+      const amountMatch = /<Amt((?:\s[^>]*)?)>([^<]+)<\/Amt>/.exec(entry);
+      const amount = amountMatch ? Number(amountMatch[2].trim()) : NaN;
+      const currencyCode = amountMatch ? /Ccy="([A-Z]{3})"/.exec(amountMatch[1])?.[1] : undefined;
+      const bookingDate = readDate(entry, 'BookgDt');
+      const valueDate = readDate(entry, 'ValDt');
+      const date = bookingDate || valueDate;
+
+      if (!date) {
+        errors.push({ line, message: 'Entry has no booking or value date' });
+        continue;
+      }
+
+      if (!amount || Number.isNaN(amount)) {
+        errors.push({ line, message: 'Entry has no valid amount' });
+        continue;
+      }
+
+      let isCredit = readPath(entry, 'CdtDbtInd') === 'CRDT';
+      // A reversal undoes the original direction
+      if (readPath(entry, 'RvslInd') === 'true') isCredit = !isCredit;
+
+      const counterparty = isCredit
+        ? readPath(entry, 'RltdPties', 'Dbtr', 'Nm') || readPath(entry, 'RltdPties', 'Dbtr', 'Pty', 'Nm')
+        : readPath(entry, 'RltdPties', 'Cdtr', 'Nm') || readPath(entry, 'RltdPties', 'Cdtr', 'Pty', 'Nm');
+      const remittance = findAllElements(entry, 'Ustrd').map(u => decodeEntities(u.trim())).join(' ');
+      const note = [counterparty, remittance || readPath(entry, 'AddtlNtryInf')].filter(Boolean).join(' - ');
+
+      const reference = readPath(entry, 'AcctSvcrRef') || readPath(entry, 'NtryRef');
+      const scope = account || 'camt';
+
+      rows.push({
+        line,
+        date,
+        valueDate,
+        amount: Math.abs(amount),
+        type: isCredit ? TransactionType.INCOME : TransactionType.EXPENSE,
+        category: defaultCategory,
+        note: note || undefined,
+        currency: currencyCode && currencyCode in Currency ? (currencyCode as Currency) : undefined,
+        externalId: reference
+          ? `${scope}:${reference}`
+          : fingerprintEntry(`camt:${scope}`, [date, valueDate || '', String(amount), note], occurrences)
+      });
+    }
+  }
+
+  if (line === 0) {
+    errors.push({ line: 0, message: 'No entries (Ntry) found in statement' });
+  }
+
+  return { rows, errors };
+}
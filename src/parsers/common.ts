@@ -0,0 +1,87 @@
+import { createHash } from 'crypto';
+import { Category } from '../types/index.js';
+
+// Parse a date string according to a simple YYYY/MM/DD token format into an ISO date (YYYY-MM-DD)
+export function parseDateWithFormat(value: string, format: string): string | null {
+  const tokens: string[] = [];
+  const pattern = format
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/YYYY|MM|DD/g, token => {
+      tokens.push(token);
+      return token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+    });
+
+  const match = new RegExp(`^${pattern}$`).exec(value.trim());
+  if (!match) return null;
+
+  const parts: Record<string, number> = {};
+  tokens.forEach((token, i) => {
+    parts[token] = Number(match[i + 1]);
+  });
+
+  const { YYYY: year, MM: month, DD: day } = parts;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+// Parse a bank formatted amount ("1,234.56", "-12,50", "(45.00)", "$ 9.99") into a signed number
+export function parseAmount(value: string, decimalSeparator: '.' | ','): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+  text = text
+    .split(thousandsSeparator).join('')
+    .replace(/[^\d,.\-+]/g, '');
+
+  if (decimalSeparator === ',') {
+    text = text.replace(',', '.');
+  }
+
+  const amount = Number(text);
+  if (text === '' || Number.isNaN(amount)) return null;
+
+  return negative ? -Math.abs(amount) : amount;
+}
+
+// Match a free-text category against the built-in categories, keeping custom names as-is
+export function resolveCategory(value: string | undefined, fallback: Category | string): Category | string {
+  const trimmed = value?.trim();
+  if (!trimmed) return fallback;
+
+  const builtIn = Object.values(Category).find(c => c.toLowerCase() === trimmed.toLowerCase());
+  return builtIn || trimmed;
+}
+
+// Build a stable id for statement entries that carry no usable bank reference.
+// The occurrence counter keeps two identical entries in the same file apart.
+export function fingerprintEntry(prefix: string, parts: string[], occurrences: Map<string, number>): string {
+  const key = parts.join('|');
+  const count = (occurrences.get(key) || 0) + 1;
+  occurrences.set(key, count);
+  return `${prefix}:${createHash('sha1').update(`${key}|${count}`).digest('hex')}`;
+}
+
+// Decode the XML/SGML entities banks use in OFX and ISO 20022 files
+export function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
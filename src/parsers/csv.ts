@@ -0,0 +1,97 @@
+import {
+  Category,
+  TransactionType,
+  SignConvention,
+  ImportColumnMapping,
+  ImportParseResult,
+  ImportRow,
+  ImportRowError
+} from '../types/index.js';
+import { parseCsv } from '../utils/csv.js';
+import { parseDateWithFormat, parseAmount, resolveCategory } from './common.js';
+
+// Map CSV content to import rows using a column mapping
+export function parseCsvStatement(content: string, mapping: ImportColumnMapping): ImportParseResult {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  const records = parseCsv(content, mapping.delimiter);
+  if (records.length === 0) {
+    return { rows, errors: [{ line: 0, message: 'File is empty' }] };
+  }
+
+  const header = mapping.hasHeader ? records[0].map(h => h.trim().toLowerCase()) : [];
+  const dataRows = mapping.hasHeader ? records.slice(1) : records;
+  const lineOffset = mapping.hasHeader ? 2 : 1;
+
+  // Resolve every mapped column to an index up front so bad mappings fail once, not per row
+  const resolveColumn = (column: string | number | undefined, field: string): number | undefined => {
+    if (column === undefined || column === '') return undefined;
+    if (typeof column === 'number' || /^\d+$/.test(String(column))) return Number(column);
+
+    const index = header.indexOf(String(column).trim().toLowerCase());
+    if (index === -1) {
+      errors.push({ line: 1, message: `Column "${column}" for ${field} not found in header` });
+    }
+    return index === -1 ? undefined : index;
+  };
+
+  const columns = {
+    date: resolveColumn(mapping.dateColumn, 'date'),
+    amount: resolveColumn(mapping.amountColumn, 'amount'),
+    debit: resolveColumn(mapping.debitColumn, 'debit'),
+    credit: resolveColumn(mapping.creditColumn, 'credit'),
+    note: resolveColumn(mapping.noteColumn, 'note'),
+    category: resolveColumn(mapping.categoryColumn, 'category')
+  };
+
+  if (errors.length > 0) {
+    return { rows, errors };
+  }
+
+  const fallbackCategory = mapping.defaultCategory || Category.OTHER;
+
+  dataRows.forEach((record, i) => {
+    const line = i + lineOffset;
+    const cell = (index?: number) => (index === undefined ? undefined : record[index]?.trim());
+
+    const date = parseDateWithFormat(cell(columns.date) || '', mapping.dateFormat);
+    if (!date) {
+      errors.push({ line, message: `Invalid date "${cell(columns.date) || ''}" (expected ${mapping.dateFormat})` });
+      return;
+    }
+
+    let signed: number | null = null;
+    if (mapping.signConvention === SignConvention.SEPARATE_COLUMNS) {
+      const debit = parseAmount(cell(columns.debit) || '', mapping.decimalSeparator);
+      const credit = parseAmount(cell(columns.credit) || '', mapping.decimalSeparator);
+      if (debit) signed = -Math.abs(debit);
+      else if (credit) signed = Math.abs(credit);
+    } else {
+      signed = parseAmount(cell(columns.amount) || '', mapping.decimalSeparator);
+      if (signed !== null && mapping.signConvention === SignConvention.POSITIVE_IS_EXPENSE) {
+        signed = -signed;
+      }
+    }
+
+    if (signed === null || signed === 0) {
+      errors.push({ line, message: 'Missing or zero amount' });
+      return;
+    }
+
+    const type = signed < 0 ? TransactionType.EXPENSE : TransactionType.INCOME;
+    const note = cell(columns.note);
+
+    rows.push({
+      line,
+      date,
+      amount: Math.abs(signed),
+      type,
+      category: resolveCategory(cell(columns.category), fallbackCategory),
+      note: note || undefined,
+      currency: mapping.currency
+    });
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,55 @@
+import { Category, ImportColumnMapping, ImportParseResult, StatementFormat } from '../types/index.js';
+import { parseCsvStatement } from './csv.js';
+import { isOfx, parseOfxStatement } from './ofx.js';
+import { isQif, parseQifStatement } from './qif.js';
+import { isCamt053, parseCamt053Statement } from './camt053.js';
+import { isMt940, parseMt940Statement } from './mt940.js';
+
+export { parseCsvStatement } from './csv.js';
+export { parseOfxStatement } from './ofx.js';
+export { parseQifStatement } from './qif.js';
+export { parseCamt053Statement } from './camt053.js';
+export { parseMt940Statement } from './mt940.js';
+
+export interface StatementParseOptions {
+  mapping?: ImportColumnMapping; // Required for CSV
+  dateFormat?: string; // QIF date order override (QIF defaults to MM/DD/YYYY)
+  defaultCategory?: Category | string;
+}
+
+// Guess the statement format from the file content. CSV is the fallback.
+export function detectStatementFormat(content: string): StatementFormat {
+  if (isOfx(content)) {
+    return /INTU\.BID|INTU\.USERID/i.test(content) ? StatementFormat.QFX : StatementFormat.OFX;
+  }
+  if (isCamt053(content)) return StatementFormat.CAMT053;
+  if (isQif(content)) return StatementFormat.QIF;
+  if (isMt940(content)) return StatementFormat.MT940;
+  return StatementFormat.CSV;
+}
+
+// Parse any supported statement format into import rows
+export function parseStatement(
+  content: string,
+  format: StatementFormat,
+  options: StatementParseOptions = {}
+): ImportParseResult {
+  switch (format) {
+    case StatementFormat.OFX:
+    case StatementFormat.QFX:
+      return parseOfxStatement(content, options.defaultCategory);
+    case StatementFormat.QIF:
+      return parseQifStatement(content, options);
+    case StatementFormat.CAMT053:
+      return parseCamt053Statement(content, options.defaultCategory);
+    case StatementFormat.MT940:
+      return parseMt940Statement(content, options.defaultCategory);
+    case StatementFormat.CSV:
+      if (!options.mapping) {
+        return { rows: [], errors: [{ line: 0, message: 'CSV imports require a column mapping' }] };
+      }
+      return parseCsvStatement(content, options.mapping);
+    default:
+      return { rows: [], errors: [{ line: 0, message: `Unsupported statement format: ${format}` }] };
+  }
+}
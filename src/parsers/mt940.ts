@@ -0,0 +1,168 @@
+import {
+  Category,
+  Currency,
+  TransactionType,
+  ImportParseResult,
+  ImportRow,
+  ImportRowError
+} from '../types/index.js';
+import { fingerprintEntry } from './common.js';
+
+// :61: statement line - value date, optional booking date (MMDD), debit/credit mark,
+// optional funds code, amount, transaction type, customer reference and optional //bank reference
+const STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^/\r\n]*)(?:\/\/([^\r\n]*))?/;
+
+export function isMt940(content: string): boolean {
+  return /:20:/.test(content) && /:61:/.test(content);
+}
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+  line: number;
+}
+
+// Split the statement into :tag: fields, joining continuation lines onto their field
+function readFields(content: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.replace(/\s+$/, '');
+    const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+
+    if (match) {
+      fields.push({ tag: match[1], value: match[2], line: i + 1 });
+    } else if (fields.length > 0 && line && line !== '-' && !line.startsWith('{') && !line.startsWith('}')) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+
+  return fields;
+}
+
+function isMeaningfulReference(reference: string | undefined): reference is string {
+  const trimmed = reference?.trim();
+  return !!trimmed && trimmed.toUpperCase() !== 'NONREF';
+}
+
+// :86: is free text, often with ?20-?29 style subfields (German banks). Keep it readable.
+function cleanInformation(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const text = value
+    .replace(/\n/g, '')
+    .replace(/\?\d{2}/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text || undefined;
+}
+
+// Parse SWIFT MT940 customer statements into import rows.
+// The booking date becomes the transaction date and the value date is kept alongside it.
+export function parseMt940Statement(
+  content: string,
+  defaultCategory: Category | string = Category.OTHER
+): ImportParseResult {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const occurrences = new Map<string, number>();
+
+  if (!isMt940(content)) {
+    return { rows, errors: [{ line: 0, message: 'File is not a valid MT940 statement' }] };
+  }
+
+  let account = 'mt940';
+  let currency: Currency | undefined;
+  let pending: ImportRow | null = null;
+
+  const pushPending = () => {
+    if (pending) rows.push(pending);
+    pending = null;
+  };
+
+  for (const field of readFields(content)) {
+    switch (field.tag) {
+      case '25':
+        account = field.value.trim();
+        break;
+
+      // Opening balance carries the statement currency: C240101EUR1234,56
+      case '60F':
+      case '60M': {
+        const code = /^[CD]\d{6}([A-Z]{3})/.exec(field.value)?.[1];
+        currency = code && code in Currency ? (code as Currency) : undefined;
+        break;
+      }
+
+      case '61': {
+        pushPending();
+
+        const match = STATEMENT_LINE.exec(field.value);
+        if (!match) {
+          errors.push({ line: field.line, message: `Unrecognized :61: statement line "${field.value.split('\n')[0]}"` });
+          break;
+        }
+
+        const [, yy, mm, dd, bookingMMDD, mark, , rawAmount, , customerRef, bankRef] = match;
+        const year = 2000 + Number(yy);
+        const valueDate = `${year}-${mm}-${dd}`;
+
+        // Booking date has no year - take the value date's, adjusting across the new year boundary
+        let date = valueDate;
+        if (bookingMMDD) {
+          const bookingMonth = Number(bookingMMDD.slice(0, 2));
+          let bookingYear = year;
+          if (Number(mm) === 12 && bookingMonth === 1) bookingYear++;
+          if (Number(mm) === 1 && bookingMonth === 12) bookingYear--;
+          date = `${bookingYear}-${bookingMMDD.slice(0, 2)}-${bookingMMDD.slice(2)}`;
+        }
+
+        const amount = Number(rawAmount.replace(',', '.'));
+        if (!amount) {
+          errors.push({ line: field.line, message: 'Missing or zero amount' });
+          break;
+        }
+
+        // RC / RD are reversals of a credit / debit
+        const isCredit = mark === 'C' || mark === 'RD';
+        const reference = isMeaningfulReference(bankRef) ? bankRef : isMeaningfulReference(customerRef) ? customerRef : undefined;
+        const supplementary = field.value.split('\n').slice(1).join(' ').trim();
+
+        pending = {
+          line: field.line,
+          date,
+          valueDate,
+          amount,
+          type: isCredit ? TransactionType.INCOME : TransactionType.EXPENSE,
+          category: defaultCategory,
+          note: supplementary || undefined,
+          currency,
+          externalId: reference
+            ? `${account}:${reference.trim()}`
+            : fingerprintEntry(`mt940:${account}`, [date, valueDate, mark, rawAmount, supplementary], occurrences)
+        };
+        break;
+      }
+
+      // Information to account owner belongs to the preceding :61:
+      case '86': {
+        const info = cleanInformation(field.value);
+        const current = pending as ImportRow | null;
+        if (current && info) {
+          current.note = current.note ? `${info} - ${current.note}` : info;
+        }
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  pushPending();
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ line: 0, message: 'No statement lines (:61:) found' });
+  }
+
+  return { rows, errors };
+}
@@ -0,0 +1,97 @@
+import {
+  Category,
+  Currency,
+  TransactionType,
+  ImportParseResult,
+  ImportRow,
+  ImportRowError
+} from '../types/index.js';
+import { decodeEntities } from './common.js';
+
+// TRNTYPE values that explicitly mark money in / money out
+const CREDIT_TYPES = new Set(['CREDIT', 'DEP', 'INT', 'DIV', 'DIRECTDEP']);
+const DEBIT_TYPES = new Set(['DEBIT', 'PAYMENT', 'CHECK', 'FEE', 'SRVCHG', 'ATM', 'POS', 'DIRECTDEBIT', 'REPEATPMT']);
+
+// Read a single tag value. Works for both OFX 1.x SGML (no closing tags) and OFX 2.x XML.
+function readTag(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+// OFX dates look like 20240131, 20240131120000 or 20240131120000.000[-5:EST]
+function parseOfxDate(value: string | undefined): string | null {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})/.exec(value) : null;
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+}
+
+export function isOfx(content: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(content.slice(0, 2000));
+}
+
+// Parse OFX / QFX (Quicken flavoured OFX) statements into import rows.
+// FITID is kept as externalId, scoped by the bank account id so two accounts can't collide.
+export function parseOfxStatement(
+  content: string,
+  defaultCategory: Category | string = Category.OTHER
+): ImportParseResult {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  if (!isOfx(content)) {
+    return { rows, errors: [{ line: 0, message: 'File is not a valid OFX/QFX statement' }] };
+  }
+
+  const currencyCode = readTag(content, 'CURDEF')?.toUpperCase();
+  const currency = currencyCode && currencyCode in Currency ? (currencyCode as Currency) : undefined;
+  const accountId = readTag(content, 'ACCTID');
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<STMTTRN>|<\/BANKTRANLIST>|<\/STMTTRN>|$)/gi) || [];
+
+  blocks.forEach((block, i) => {
+    const line = i + 1;
+    const fitId = readTag(block, 'FITID');
+    const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+    const amount = Number((readTag(block, 'TRNAMT') || '').replace(',', '.'));
+
+    if (!date) {
+      errors.push({ line, message: `Transaction ${fitId || line} has no valid DTPOSTED` });
+      return;
+    }
+
+    if (!amount || Number.isNaN(amount)) {
+      errors.push({ line, message: `Transaction ${fitId || line} has no valid TRNAMT` });
+      return;
+    }
+
+    const trnType = (readTag(block, 'TRNTYPE') || '').toUpperCase();
+    let type = amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME;
+    if (CREDIT_TYPES.has(trnType)) type = TransactionType.INCOME;
+    if (DEBIT_TYPES.has(trnType)) type = TransactionType.EXPENSE;
+
+    const name = readTag(block, 'NAME') || readTag(block, 'PAYEE');
+    const memo = readTag(block, 'MEMO');
+    const note = [name, memo].filter(Boolean).join(' - ');
+
+    rows.push({
+      line,
+      date,
+      amount: Math.abs(amount),
+      type,
+      category: defaultCategory,
+      note: note || undefined,
+      currency,
+      externalId: fitId ? (accountId ? `${accountId}:${fitId}` : fitId) : undefined
+    });
+  });
+
+  if (blocks.length === 0) {
+    errors.push({ line: 0, message: 'No transactions (STMTTRN) found in statement' });
+  }
+
+  return { rows, errors };
+}
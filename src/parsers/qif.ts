@@ -0,0 +1,94 @@
+import {
+  Category,
+  TransactionType,
+  ImportParseResult,
+  ImportRow,
+  ImportRowError
+} from '../types/index.js';
+import { parseAmount, parseDateWithFormat, resolveCategory, fingerprintEntry } from './common.js';
+
+export function isQif(content: string): boolean {
+  return /^\s*!Type:/i.test(content);
+}
+
+// QIF dates come as 01/31/2024, 1/31'24 or 01-31-2024 depending on the exporter
+function parseQifDate(value: string, dateFormat: string): string | null {
+  let normalized = value.trim().replace(/['\-.]/g, '/').replace(/\s+/g, '');
+
+  // Expand two-digit years: '24 -> 2024
+  normalized = normalized.replace(/\/(\d{2})$/, (_, yy) => `/${Number(yy) < 70 ? '20' : '19'}${yy}`);
+
+  return parseDateWithFormat(normalized, dateFormat.replace(/[-.]/g, '/'));
+}
+
+// Parse Quicken Interchange Format bank / credit card statements into import rows
+export function parseQifStatement(
+  content: string,
+  options: { dateFormat?: string; defaultCategory?: Category | string } = {}
+): ImportParseResult {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const dateFormat = options.dateFormat || 'MM/DD/YYYY';
+  const fallbackCategory = options.defaultCategory || Category.OTHER;
+  // QIF has no bank transaction id, so entries are deduped by a fingerprint of their contents
+  const occurrences = new Map<string, number>();
+
+  if (!isQif(content)) {
+    return { rows, errors: [{ line: 0, message: 'File is not a valid QIF statement (missing !Type header)' }] };
+  }
+
+  let entry: Record<string, string> = {};
+  let entryLine = 0;
+
+  const flush = () => {
+    if (Object.keys(entry).length === 0) return;
+
+    const date = parseQifDate(entry.D || '', dateFormat);
+    const amount = parseAmount(entry.T || entry.U || '', '.');
+
+    if (!date) {
+      errors.push({ line: entryLine, message: `Invalid date "${entry.D || ''}" (expected ${dateFormat})` });
+    } else if (amount === null || amount === 0) {
+      errors.push({ line: entryLine, message: 'Missing or zero amount' });
+    } else {
+      const note = [entry.P, entry.M].filter(Boolean).join(' - ');
+      // Split categories look like "Food:Groceries" - keep the top-level part
+      const category = entry.L && !entry.L.startsWith('[') ? entry.L.split(':')[0] : undefined;
+
+      rows.push({
+        line: entryLine,
+        date,
+        amount: Math.abs(amount),
+        type: amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME,
+        category: resolveCategory(category, fallbackCategory),
+        note: note || undefined,
+        externalId: fingerprintEntry('qif', [date, String(amount), entry.P || '', entry.M || '', entry.N || ''], occurrences)
+      });
+    }
+
+    entry = {};
+  };
+
+  content.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) return;
+
+    if (line === '^') {
+      flush();
+      return;
+    }
+
+    if (Object.keys(entry).length === 0) entryLine = i + 1;
+
+    const code = line[0];
+    // Keep the first value for each code; split lines (S/E/$) repeat codes we don't use
+    if (entry[code] === undefined) {
+      entry[code] = line.slice(1).trim();
+    }
+  });
+
+  // Some exporters omit the final ^
+  flush();
+
+  return { rows, errors };
+}
@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { getDb } from '../config/database.js';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import { isJointAccountMember, requireJointAccountAdmin } from '../middleware/jointAccount.js';
+import { AuditAction, AuditEntity, AuditLogEntry } from '../types/index.js';
+import { Auth } from '../config/auth.js';
+import { isISODate } from '../utils/dates.js';
+
+const AUDIT_ENTITIES: AuditEntity[] = ['transaction', 'goal', 'subscription', 'member', 'invite'];
+const MAX_AUDIT_ENTRIES = 500;
+
+export function createAuditRoutes(auth: Auth): Router {
+  const router = Router();
+  const authMiddleware = createAuthMiddleware(auth);
+
+  // Get a joint account's audit log, newest first (admin only).
+  // Filter with entity, entityId, action, actorUserId and from/to dates (YYYY-MM-DD).
+  router.get('/joint-account/:jointAccountId', authMiddleware, requireJointAccountAdmin, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+      const { entity, entityId, action, actorUserId, from, to } = req.query;
+      const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+      const skip = req.query.skip === undefined ? 0 : Number(req.query.skip);
+
+      if (entity !== undefined && !AUDIT_ENTITIES.includes(entity as AuditEntity)) {
+        return res.status(400).json({ success: false, error: `entity must be one of: ${AUDIT_ENTITIES.join(', ')}` });
+      }
+      if (action !== undefined && !Object.values(AuditAction).includes(action as AuditAction)) {
+        return res.status(400).json({
+          success: false,
+          error: `action must be one of: ${Object.values(AuditAction).join(', ')}`
+        });
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_ENTRIES) {
+        return res.status(400).json({ success: false, error: `limit must be between 1 and ${MAX_AUDIT_ENTRIES}` });
+      }
+      if (!Number.isInteger(skip) || skip < 0) {
+        return res.status(400).json({ success: false, error: 'skip must be 0 or more' });
+      }
+
+      const filter: Record<string, any> = { jointAccountId };
+      if (entity) filter.entity = entity;
+      if (entityId) filter.entityId = String(entityId);
+      if (action) filter.action = action;
+      if (actorUserId) filter.actorUserId = String(actorUserId);
+      if ((from !== undefined && !isISODate(from)) || (to !== undefined && !isISODate(to))) {
+        return res.status(400).json({ success: false, error: 'from and to must be in YYYY-MM-DD format' });
+      }
+      if (from || to) {
+        filter.createdAt = {
+          ...(from && { $gte: new Date(`${from}T00:00:00.000Z`) }),
+          ...(to && { $lte: new Date(`${to}T23:59:59.999Z`) })
+        };
+      }
+
+      const [entries, total] = await Promise.all([
+        db.collection<AuditLogEntry>('auditLog')
+          .find(filter, { projection: { _id: 0 } })
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit)
+          .toArray(),
+        db.collection<AuditLogEntry>('auditLog').countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        data: entries,
+        pagination: { total, limit, skip }
+      });
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch audit log' });
+    }
+  });
+
+  // Get the edit history of one record (e.g. a transaction), oldest first. Any member can see it.
+  router.get('/:entity/:entityId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { entity, entityId } = req.params;
+      const userId = req.user!.id;
+
+      if (!AUDIT_ENTITIES.includes(entity as AuditEntity)) {
+        return res.status(400).json({ success: false, error: `entity must be one of: ${AUDIT_ENTITIES.join(', ')}` });
+      }
+
+      const history = await db.collection<AuditLogEntry>('auditLog')
+        .find({ entity: entity as AuditEntity, entityId }, { projection: { _id: 0 } })
+        .sort({ createdAt: 1 })
+        .limit(MAX_AUDIT_ENTRIES)
+        .toArray();
+
+      if (history.length === 0) {
+        return res.status(404).json({ success: false, error: 'No history found for this record' });
+      }
+
+      // Verify membership
+      if (!(await isJointAccountMember(history[0].jointAccountId, userId))) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      res.json({ success: true, data: history });
+    } catch (error) {
+      console.error('Error fetching record history:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch record history' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,171 @@
+import { Router } from 'express';
+import { getDb } from '../config/database.js';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import { requireJointAccountMember } from '../middleware/jointAccount.js';
+import { AutoSaveRule, AutoSaveRuleType, Goal } from '../types/index.js';
+import { Auth } from '../config/auth.js';
+import { validateAutoSaveRule } from '../services/autoSaveService.js';
+
+export function createAutoSaveRoutes(auth: Auth): Router {
+  const router = Router();
+  const authMiddleware = createAuthMiddleware(auth);
+
+  // Get all auto-save rules for a joint account
+  router.get('/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+
+      const rules = await db.collection<AutoSaveRule>('autoSaveRules')
+        .find({ jointAccountId })
+        .sort({ createdAt: 1 })
+        .toArray();
+
+      res.json({ success: true, data: rules });
+    } catch (error) {
+      console.error('Error fetching auto-save rules:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch auto-save rules' });
+    }
+  });
+
+  // Create an auto-save rule
+  router.post('/', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const userId = req.user!.id;
+      const userName = req.user!.name;
+      const { jointAccountId, goalId, type, percent, roundTo, category } = req.body;
+
+      if (!goalId || !type) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: jointAccountId, goalId, type'
+        });
+      }
+
+      const rule: AutoSaveRule = {
+        id: crypto.randomUUID(),
+        jointAccountId,
+        goalId,
+        type,
+        ...(type === AutoSaveRuleType.PERCENT_OF_INCOME && { percent: Number(percent) }),
+        ...(type === AutoSaveRuleType.ROUND_UP && { roundTo: Number(roundTo) }),
+        ...(category && { category }),
+        active: true,
+        createdByUserId: userId,
+        createdByUserName: userName,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      const ruleError = validateAutoSaveRule(rule);
+      if (ruleError) {
+        return res.status(400).json({ success: false, error: ruleError });
+      }
+
+      const goal = await db.collection<Goal>('goals').findOne({ id: goalId, jointAccountId });
+      if (!goal) {
+        return res.status(404).json({ success: false, error: 'Goal not found' });
+      }
+
+      await db.collection<AutoSaveRule>('autoSaveRules').insertOne(rule);
+
+      res.status(201).json({ success: true, data: rule });
+    } catch (error) {
+      console.error('Error creating auto-save rule:', error);
+      res.status(500).json({ success: false, error: 'Failed to create auto-save rule' });
+    }
+  });
+
+  // Update an auto-save rule
+  router.put('/:ruleId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { ruleId } = req.params;
+      const userId = req.user!.id;
+      const { goalId, percent, roundTo, category, active } = req.body;
+
+      const rule = await db.collection<AutoSaveRule>('autoSaveRules').findOne({ id: ruleId });
+
+      if (!rule) {
+        return res.status(404).json({ success: false, error: 'Auto-save rule not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: rule.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      const updateData: Partial<AutoSaveRule> = { updatedAt: new Date() };
+      if (goalId) {
+        const goal = await db.collection<Goal>('goals').findOne({ id: goalId, jointAccountId: rule.jointAccountId });
+        if (!goal) {
+          return res.status(404).json({ success: false, error: 'Goal not found' });
+        }
+        updateData.goalId = goalId;
+      }
+      if (percent !== undefined) updateData.percent = Number(percent);
+      if (roundTo !== undefined) updateData.roundTo = Number(roundTo);
+      if (category !== undefined) updateData.category = category || undefined;
+      if (active !== undefined) updateData.active = active === true;
+
+      const ruleError = validateAutoSaveRule({ ...rule, ...updateData });
+      if (ruleError) {
+        return res.status(400).json({ success: false, error: ruleError });
+      }
+
+      await db.collection<AutoSaveRule>('autoSaveRules').updateOne(
+        { id: ruleId },
+        { $set: updateData }
+      );
+
+      const updated = await db.collection<AutoSaveRule>('autoSaveRules').findOne({ id: ruleId });
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error('Error updating auto-save rule:', error);
+      res.status(500).json({ success: false, error: 'Failed to update auto-save rule' });
+    }
+  });
+
+  // Delete an auto-save rule (contributions it already made are kept)
+  router.delete('/:ruleId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { ruleId } = req.params;
+      const userId = req.user!.id;
+
+      const rule = await db.collection<AutoSaveRule>('autoSaveRules').findOne({ id: ruleId });
+
+      if (!rule) {
+        return res.status(404).json({ success: false, error: 'Auto-save rule not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: rule.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      await db.collection<AutoSaveRule>('autoSaveRules').deleteOne({ id: ruleId });
+
+      res.json({ success: true, message: 'Auto-save rule deleted' });
+    } catch (error) {
+      console.error('Error deleting auto-save rule:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete auto-save rule' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,252 @@
+import { Router } from 'express';
+import { getDb } from '../config/database.js';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import { requireJointAccountMember } from '../middleware/jointAccount.js';
+import { Budget, Category, CustomCategory, JointAccount } from '../types/index.js';
+import { Auth } from '../config/auth.js';
+import { computeBudgetProgress } from '../services/budgetService.js';
+import { emitToJointAccount, SocketEvents } from '../services/socketService.js';
+import { isMonthKey, monthKey, todayISO } from '../utils/dates.js';
+
+// A budget can target a built-in category or one of the account's custom categories
+async function isKnownCategory(jointAccountId: string, category: string): Promise<boolean> {
+  if ((Object.values(Category) as string[]).includes(category)) return true;
+
+  const db = getDb();
+  const custom = await db.collection<CustomCategory>('customCategories')
+    .findOne({ jointAccountId, name: category });
+  return !!custom;
+}
+
+export function createBudgetRoutes(auth: Auth): Router {
+  const router = Router();
+  const authMiddleware = createAuthMiddleware(auth);
+
+  // Get all budgets for a joint account, with progress for the current (or requested) month
+  router.get('/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+      const month = isMonthKey(req.query.month) ? req.query.month : monthKey(todayISO());
+
+      const budgets = await db.collection<Budget>('budgets')
+        .find({ jointAccountId })
+        .sort({ category: 1 })
+        .toArray();
+
+      const data = await Promise.all(budgets.map(async budget => ({
+        ...budget,
+        progress: budget.startMonth <= month ? await computeBudgetProgress(budget, month) : null
+      })));
+
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error('Error fetching budgets:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch budgets' });
+    }
+  });
+
+  // Create a new budget
+  router.post('/', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const userId = req.user!.id;
+      const { jointAccountId, category, monthlyLimit, currency, rollover, startMonth } = req.body;
+
+      if (!category || monthlyLimit === undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: jointAccountId, category, monthlyLimit'
+        });
+      }
+
+      const limit = Number(monthlyLimit);
+      if (!Number.isFinite(limit) || limit <= 0) {
+        return res.status(400).json({ success: false, error: 'monthlyLimit must be a positive number' });
+      }
+
+      if (startMonth !== undefined && !isMonthKey(startMonth)) {
+        return res.status(400).json({ success: false, error: 'startMonth must be in YYYY-MM format' });
+      }
+
+      if (!(await isKnownCategory(jointAccountId, category))) {
+        return res.status(400).json({ success: false, error: `Unknown category "${category}"` });
+      }
+
+      const existing = await db.collection<Budget>('budgets').findOne({ jointAccountId, category });
+      if (existing) {
+        return res.status(409).json({ success: false, error: `A budget for ${category} already exists` });
+      }
+
+      const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
+
+      const now = new Date();
+      const budget: Budget = {
+        id: crypto.randomUUID(),
+        jointAccountId,
+        category,
+        monthlyLimit: limit,
+        currency: currency || account?.primaryCurrency || 'USD',
+        rollover: rollover === true,
+        startMonth: startMonth || monthKey(now),
+        alertsSent: {},
+        createdByUserId: userId,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await db.collection<Budget>('budgets').insertOne(budget);
+
+      emitToJointAccount(jointAccountId, SocketEvents.BUDGET_CREATED, budget);
+
+      res.status(201).json({ success: true, data: budget });
+    } catch (error) {
+      console.error('Error creating budget:', error);
+      res.status(500).json({ success: false, error: 'Failed to create budget' });
+    }
+  });
+
+  // Get budget progress for a month (defaults to the current month)
+  router.get('/:budgetId/progress', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { budgetId } = req.params;
+      const userId = req.user!.id;
+
+      if (req.query.month !== undefined && !isMonthKey(req.query.month)) {
+        return res.status(400).json({ success: false, error: 'month must be in YYYY-MM format' });
+      }
+      const month = (req.query.month as string) || monthKey(todayISO());
+
+      const budget = await db.collection<Budget>('budgets').findOne({ id: budgetId });
+
+      if (!budget) {
+        return res.status(404).json({ success: false, error: 'Budget not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: budget.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      if (month < budget.startMonth) {
+        return res.status(400).json({ success: false, error: `Budget starts in ${budget.startMonth}` });
+      }
+
+      const progress = await computeBudgetProgress(budget, month);
+
+      res.json({ success: true, data: progress });
+    } catch (error) {
+      console.error('Error fetching budget progress:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch budget progress' });
+    }
+  });
+
+  // Update a budget
+  router.put('/:budgetId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { budgetId } = req.params;
+      const userId = req.user!.id;
+      const { monthlyLimit, currency, rollover, startMonth } = req.body;
+
+      const budget = await db.collection<Budget>('budgets').findOne({ id: budgetId });
+
+      if (!budget) {
+        return res.status(404).json({ success: false, error: 'Budget not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: budget.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      const updateData: Partial<Budget> = { updatedAt: new Date() };
+      if (monthlyLimit !== undefined) {
+        const limit = Number(monthlyLimit);
+        if (!Number.isFinite(limit) || limit <= 0) {
+          return res.status(400).json({ success: false, error: 'monthlyLimit must be a positive number' });
+        }
+        updateData.monthlyLimit = limit;
+      }
+      if (currency) updateData.currency = currency;
+      if (rollover !== undefined) updateData.rollover = rollover === true;
+      if (startMonth !== undefined) {
+        if (!isMonthKey(startMonth)) {
+          return res.status(400).json({ success: false, error: 'startMonth must be in YYYY-MM format' });
+        }
+        updateData.startMonth = startMonth;
+      }
+      // A new limit or currency changes what the thresholds mean - allow alerts to fire again
+      if (updateData.monthlyLimit !== undefined || updateData.currency) updateData.alertsSent = {};
+
+      await db.collection<Budget>('budgets').updateOne(
+        { id: budgetId },
+        { $set: updateData }
+      );
+
+      const updated = await db.collection<Budget>('budgets').findOne({ id: budgetId });
+
+      if (updated) {
+        emitToJointAccount(budget.jointAccountId, SocketEvents.BUDGET_UPDATED, updated);
+      }
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error('Error updating budget:', error);
+      res.status(500).json({ success: false, error: 'Failed to update budget' });
+    }
+  });
+
+  // Delete a budget
+  router.delete('/:budgetId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { budgetId } = req.params;
+      const userId = req.user!.id;
+
+      const budget = await db.collection<Budget>('budgets').findOne({ id: budgetId });
+
+      if (!budget) {
+        return res.status(404).json({ success: false, error: 'Budget not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: budget.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      await db.collection<Budget>('budgets').deleteOne({ id: budgetId });
+
+      emitToJointAccount(budget.jointAccountId, SocketEvents.BUDGET_DELETED, {
+        budgetId,
+        jointAccountId: budget.jointAccountId
+      });
+
+      res.json({ success: true, message: 'Budget deleted' });
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete budget' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,189 @@
+import { Router } from 'express';
+import { getDb } from '../config/database.js';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import { requireJointAccountMember } from '../middleware/jointAccount.js';
+import { Category, CustomCategory } from '../types/index.js';
+import { Auth } from '../config/auth.js';
+import { emitToJointAccount, SocketEvents } from '../services/socketService.js';
+import { bumpVersion } from '../utils/mutations.js';
+
+// Collections that store a category name and follow a custom category when it is renamed
+const CATEGORY_COLLECTIONS = ['transactions', 'budgets', 'recurringRules', 'subscriptions', 'autoSaveRules'];
+
+// Of those, the ones whose documents carry a version for If-Match checks
+const VERSIONED_COLLECTIONS = ['transactions', 'subscriptions'];
+
+// A name is taken when it matches a built-in or another custom category (ignoring case)
+async function isCategoryNameTaken(jointAccountId: string, name: string, exceptId?: string): Promise<boolean> {
+  const lower = name.toLowerCase();
+  if ((Object.values(Category) as string[]).some(c => c.toLowerCase() === lower)) return true;
+
+  const db = getDb();
+  const custom = await db.collection<CustomCategory>('customCategories')
+    .find({ jointAccountId })
+    .toArray();
+  return custom.some(c => c.id !== exceptId && c.name.toLowerCase() === lower);
+}
+
+export function createCategoryRoutes(auth: Auth): Router {
+  const router = Router();
+  const authMiddleware = createAuthMiddleware(auth);
+
+  // Get the built-in and custom categories of a joint account
+  router.get('/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+
+      const custom = await db.collection<CustomCategory>('customCategories')
+        .find({ jointAccountId })
+        .sort({ name: 1 })
+        .toArray();
+
+      res.json({ success: true, data: { builtIn: Object.values(Category), custom } });
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch categories' });
+    }
+  });
+
+  // Create a custom category
+  router.post('/', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.body;
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+      if (!name) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: jointAccountId, name'
+        });
+      }
+
+      if (await isCategoryNameTaken(jointAccountId, name)) {
+        return res.status(409).json({ success: false, error: 'A category with this name already exists' });
+      }
+
+      const category: CustomCategory = {
+        id: crypto.randomUUID(),
+        jointAccountId,
+        name,
+        createdAt: new Date()
+      };
+
+      await db.collection<CustomCategory>('customCategories').insertOne(category);
+
+      // Emit real-time update to joint account members
+      emitToJointAccount(jointAccountId, SocketEvents.CATEGORY_CREATED, category);
+
+      res.status(201).json({ success: true, data: category });
+    } catch (error) {
+      console.error('Error creating category:', error);
+      res.status(500).json({ success: false, error: 'Failed to create category' });
+    }
+  });
+
+  // Rename a custom category. Transactions, budgets and rules using it are renamed too.
+  router.put('/:categoryId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { categoryId } = req.params;
+      const userId = req.user!.id;
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+      if (!name) {
+        return res.status(400).json({ success: false, error: 'Missing required field: name' });
+      }
+
+      const category = await db.collection<CustomCategory>('customCategories').findOne({ id: categoryId });
+
+      if (!category) {
+        return res.status(404).json({ success: false, error: 'Category not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: category.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      if (await isCategoryNameTaken(category.jointAccountId, name, categoryId)) {
+        return res.status(409).json({ success: false, error: 'A category with this name already exists' });
+      }
+
+      await db.collection<CustomCategory>('customCategories').updateOne(
+        { id: categoryId },
+        { $set: { name } }
+      );
+
+      if (name !== category.name) {
+        for (const collection of CATEGORY_COLLECTIONS) {
+          await db.collection(collection).updateMany(
+            { jointAccountId: category.jointAccountId, category: category.name },
+            [{ $set: { category: { $literal: name }, ...(VERSIONED_COLLECTIONS.includes(collection) && bumpVersion()) } }]
+          );
+        }
+      }
+
+      const updated = { ...category, name };
+
+      // Emit real-time update to joint account members
+      emitToJointAccount(category.jointAccountId, SocketEvents.CATEGORY_UPDATED, {
+        ...updated,
+        previousName: category.name
+      });
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error('Error updating category:', error);
+      res.status(500).json({ success: false, error: 'Failed to update category' });
+    }
+  });
+
+  // Delete a custom category (transactions keep the name they were recorded with)
+  router.delete('/:categoryId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { categoryId } = req.params;
+      const userId = req.user!.id;
+
+      const category = await db.collection<CustomCategory>('customCategories').findOne({ id: categoryId });
+
+      if (!category) {
+        return res.status(404).json({ success: false, error: 'Category not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: category.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      await db.collection<CustomCategory>('customCategories').deleteOne({ id: categoryId });
+
+      // Emit real-time update to joint account members
+      emitToJointAccount(category.jointAccountId, SocketEvents.CATEGORY_DELETED, {
+        categoryId,
+        jointAccountId: category.jointAccountId
+      });
+
+      res.json({ success: true, message: 'Category deleted' });
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete category' });
+    }
+  });
+
+  return router;
+}
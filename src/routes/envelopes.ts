@@ -0,0 +1,329 @@
+import { Router } from 'express';
+import { getDb } from '../config/database.js';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import { requireJointAccountMember } from '../middleware/jointAccount.js';
+import {
+  BudgetingMode,
+  Envelope,
+  EnvelopeAllocation,
+  EnvelopeTransfer,
+  JointAccount,
+  Transaction
+} from '../types/index.js';
+import { Auth } from '../config/auth.js';
+import { allocateIncome, computeEnvelopeSummary, transferBetweenEnvelopes } from '../services/envelopeService.js';
+import { emitToJointAccount, SocketEvents } from '../services/socketService.js';
+
+const ENVELOPE_MODE_REQUIRED = 'Envelope budgeting is not enabled for this joint account';
+
+async function findEnvelopeAccount(jointAccountId: string): Promise<JointAccount | null> {
+  const db = getDb();
+  const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
+  return account?.budgetingMode === BudgetingMode.ENVELOPE ? account : null;
+}
+
+function parseCategories(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(c => typeof c !== 'string')) return null;
+  return Array.from(new Set(value.map((c: string) => c.trim()).filter(Boolean)));
+}
+
+export function createEnvelopeRoutes(auth: Auth): Router {
+  const router = Router();
+  const authMiddleware = createAuthMiddleware(auth);
+
+  // Get envelopes with balances, unassigned income and negative envelopes
+  router.get('/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+
+      const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
+      if (!account) {
+        return res.status(404).json({ success: false, error: 'Joint account not found' });
+      }
+
+      const summary = await computeEnvelopeSummary(account);
+
+      res.json({ success: true, data: summary });
+    } catch (error) {
+      console.error('Error fetching envelopes:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch envelopes' });
+    }
+  });
+
+  // Create an envelope
+  router.post('/', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const userId = req.user!.id;
+      const { jointAccountId, name } = req.body;
+
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ success: false, error: 'Envelope name is required' });
+      }
+
+      const categories = parseCategories(req.body.categories);
+      if (!categories) {
+        return res.status(400).json({ success: false, error: 'categories must be an array of category names' });
+      }
+
+      if (!(await findEnvelopeAccount(jointAccountId))) {
+        return res.status(400).json({ success: false, error: ENVELOPE_MODE_REQUIRED });
+      }
+
+      const now = new Date();
+      const envelope: Envelope = {
+        id: crypto.randomUUID(),
+        jointAccountId,
+        name: name.trim(),
+        categories,
+        createdByUserId: userId,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await db.collection<Envelope>('envelopes').insertOne(envelope);
+
+      emitToJointAccount(jointAccountId, SocketEvents.ENVELOPE_CREATED, envelope);
+
+      res.status(201).json({ success: true, data: envelope });
+    } catch (error) {
+      console.error('Error creating envelope:', error);
+      res.status(500).json({ success: false, error: 'Failed to create envelope' });
+    }
+  });
+
+  // Allocate an income transaction into envelopes
+  router.post('/allocations', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const { jointAccountId, transactionId, allocations } = req.body;
+
+      if (!transactionId || !Array.isArray(allocations)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: jointAccountId, transactionId, allocations'
+        });
+      }
+
+      const account = await findEnvelopeAccount(jointAccountId);
+      if (!account) {
+        return res.status(400).json({ success: false, error: ENVELOPE_MODE_REQUIRED });
+      }
+
+      const result = await allocateIncome(account, transactionId, allocations, { id: req.user!.id, name: req.user!.name });
+      if (result.error) {
+        return res.status(400).json({ success: false, error: result.error });
+      }
+
+      emitToJointAccount(jointAccountId, SocketEvents.ENVELOPE_UPDATED, { jointAccountId, transactionId });
+
+      res.status(201).json({ success: true, data: result.allocations });
+    } catch (error) {
+      console.error('Error allocating income:', error);
+      res.status(500).json({ success: false, error: 'Failed to allocate income' });
+    }
+  });
+
+  // Get the allocations of an income transaction
+  router.get('/allocations/transaction/:transactionId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { transactionId } = req.params;
+      const userId = req.user!.id;
+
+      const transaction = await db.collection<Transaction>('transactions').findOne({ id: transactionId });
+
+      if (!transaction) {
+        return res.status(404).json({ success: false, error: 'Transaction not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: transaction.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      const allocations = await db.collection<EnvelopeAllocation>('envelopeAllocations')
+        .find({ transactionId })
+        .toArray();
+
+      res.json({ success: true, data: allocations });
+    } catch (error) {
+      console.error('Error fetching allocations:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch allocations' });
+    }
+  });
+
+  // Move money between envelopes
+  router.post('/transfers', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const { jointAccountId, fromEnvelopeId, toEnvelopeId, amount, note } = req.body;
+
+      if (!fromEnvelopeId || !toEnvelopeId || amount === undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: jointAccountId, fromEnvelopeId, toEnvelopeId, amount'
+        });
+      }
+
+      const account = await findEnvelopeAccount(jointAccountId);
+      if (!account) {
+        return res.status(400).json({ success: false, error: ENVELOPE_MODE_REQUIRED });
+      }
+
+      const result = await transferBetweenEnvelopes(
+        account,
+        fromEnvelopeId,
+        toEnvelopeId,
+        Number(amount),
+        note,
+        { id: req.user!.id, name: req.user!.name }
+      );
+      if (result.error) {
+        return res.status(400).json({ success: false, error: result.error });
+      }
+
+      emitToJointAccount(jointAccountId, SocketEvents.ENVELOPE_TRANSFERRED, result.transfer);
+
+      res.status(201).json({ success: true, data: result.transfer });
+    } catch (error) {
+      console.error('Error transferring between envelopes:', error);
+      res.status(500).json({ success: false, error: 'Failed to transfer between envelopes' });
+    }
+  });
+
+  // Transfer history (audit trail) for a joint account
+  router.get('/transfers/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+
+      const transfers = await db.collection<EnvelopeTransfer>('envelopeTransfers')
+        .find({ jointAccountId })
+        .sort({ createdAt: -1 })
+        .toArray();
+
+      res.json({ success: true, data: transfers });
+    } catch (error) {
+      console.error('Error fetching envelope transfers:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch envelope transfers' });
+    }
+  });
+
+  // Update an envelope
+  router.put('/:envelopeId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { envelopeId } = req.params;
+      const userId = req.user!.id;
+      const { name } = req.body;
+
+      const envelope = await db.collection<Envelope>('envelopes').findOne({ id: envelopeId });
+
+      if (!envelope) {
+        return res.status(404).json({ success: false, error: 'Envelope not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: envelope.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      const updateData: Partial<Envelope> = { updatedAt: new Date() };
+      if (typeof name === 'string' && name.trim()) updateData.name = name.trim();
+      if (req.body.categories !== undefined) {
+        const categories = parseCategories(req.body.categories);
+        if (!categories) {
+          return res.status(400).json({ success: false, error: 'categories must be an array of category names' });
+        }
+        updateData.categories = categories;
+      }
+
+      await db.collection<Envelope>('envelopes').updateOne(
+        { id: envelopeId },
+        { $set: updateData }
+      );
+
+      const updated = await db.collection<Envelope>('envelopes').findOne({ id: envelopeId });
+
+      if (updated) {
+        emitToJointAccount(envelope.jointAccountId, SocketEvents.ENVELOPE_UPDATED, {
+          jointAccountId: envelope.jointAccountId,
+          envelope: updated
+        });
+      }
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error('Error updating envelope:', error);
+      res.status(500).json({ success: false, error: 'Failed to update envelope' });
+    }
+  });
+
+  // Delete an envelope. Envelopes with history are kept so balances and the audit trail stay intact.
+  router.delete('/:envelopeId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { envelopeId } = req.params;
+      const userId = req.user!.id;
+
+      const envelope = await db.collection<Envelope>('envelopes').findOne({ id: envelopeId });
+
+      if (!envelope) {
+        return res.status(404).json({ success: false, error: 'Envelope not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: envelope.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      const [allocations, transfers, expenses] = await Promise.all([
+        db.collection<EnvelopeAllocation>('envelopeAllocations').countDocuments({ envelopeId }),
+        db.collection<EnvelopeTransfer>('envelopeTransfers').countDocuments({
+          $or: [{ fromEnvelopeId: envelopeId }, { toEnvelopeId: envelopeId }]
+        }),
+        db.collection<Transaction>('transactions').countDocuments({ envelopeId })
+      ]);
+
+      if (allocations + transfers + expenses > 0) {
+        return res.status(409).json({
+          success: false,
+          error: 'This envelope has allocations, transfers or expenses and cannot be deleted'
+        });
+      }
+
+      await db.collection<Envelope>('envelopes').deleteOne({ id: envelopeId });
+
+      emitToJointAccount(envelope.jointAccountId, SocketEvents.ENVELOPE_DELETED, {
+        envelopeId,
+        jointAccountId: envelope.jointAccountId
+      });
+
+      res.json({ success: true, message: 'Envelope deleted' });
+    } catch (error) {
+      console.error('Error deleting envelope:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete envelope' });
+    }
+  });
+
+  return router;
+}
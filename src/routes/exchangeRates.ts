@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import { createCurrencyConverter, getRatesOn, RATE_BASE_CURRENCY } from '../services/exchangeRateService.js';
+import { Currency } from '../types/index.js';
+import { Auth } from '../config/auth.js';
+import { isISODate } from '../utils/dates.js';
+
+export function createExchangeRateRoutes(auth: Auth): Router {
+  const router = Router();
+  const authMiddleware = createAuthMiddleware(auth);
+
+  // Get the stored rates in effect on a date (defaults to today)
+  router.get('/', authMiddleware, async (req, res) => {
+    try {
+      const date = String(req.query.date || new Date().toISOString().split('T')[0]);
+
+      if (!isISODate(date)) {
+        return res.status(400).json({ success: false, error: 'date must be YYYY-MM-DD' });
+      }
+
+      const rates = await getRatesOn(date);
+
+      res.json({ success: true, data: { base: RATE_BASE_CURRENCY, date, rates } });
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch exchange rates' });
+    }
+  });
+
+  // Convert an amount between two currencies using the rate on a date
+  router.get('/convert', authMiddleware, async (req, res) => {
+    try {
+      const { amount, from, to } = req.query;
+      const date = String(req.query.date || new Date().toISOString().split('T')[0]);
+      const currencies = Object.values(Currency) as string[];
+
+      if (amount === undefined || !Number.isFinite(Number(amount)) || !from || !to) {
+        return res.status(400).json({ success: false, error: 'amount, from and to are required' });
+      }
+
+      if (!isISODate(date)) {
+        return res.status(400).json({ success: false, error: 'date must be YYYY-MM-DD' });
+      }
+
+      if (!currencies.includes(String(from)) || !currencies.includes(String(to))) {
+        return res.status(400).json({ success: false, error: 'Unsupported currency' });
+      }
+
+      const converter = createCurrencyConverter(String(to));
+      const converted = await converter.convert(Number(amount), String(from), date);
+
+      if (converted === null) {
+        return res.status(404).json({ success: false, error: `No exchange rate available for ${from} on ${date}` });
+      }
+
+      res.json({ 
+        success: true, 
+        data: { amount: Number(amount), from, to, date, converted, rateUsed: converter.ratesUsed()[0] } 
+      });
+    } catch (error) {
+      console.error('Error converting currency:', error);
+      res.status(500).json({ success: false, error: 'Failed to convert currency' });
+    }
+  });
+
+  return router;
+}
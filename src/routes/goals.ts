@@ -1,11 +1,20 @@
 import { Router } from 'express';
 import { getDb } from '../config/database.js';
 import { createAuthMiddleware } from '../middleware/auth.js';
+import { handleIdempotencyKey } from '../middleware/idempotency.js';
 import { requireJointAccountMember } from '../middleware/jointAccount.js';
-import { notifyJointAccountMembers } from '../services/pushService.js';
-import { Goal } from '../types/index.js';
+import {
+  addGoalContribution,
+  computeGoalProjection,
+  createGoal,
+  deleteGoal,
+  removeGoalContribution,
+  updateGoal
+} from '../services/goalService.js';
+import { Goal, GoalContribution, GoalContributionType } from '../types/index.js';
 import { Auth } from '../config/auth.js';
 import { findUserById } from '../utils/userLookup.js';
+import { INVALID_PRECONDITION_ERROR, parsePrecondition, sendOutcome } from '../utils/mutations.js';
 
 export function createGoalRoutes(auth: Auth): Router {
   const router = Router();
@@ -29,23 +38,82 @@ export function createGoalRoutes(auth: Auth): Router {
     }
   });
 
-  // Create a new goal
-  router.post('/', authMiddleware, async (req, res) => {
+  // Create a new goal (a client-generated id makes retries safe)
+  router.post('/', authMiddleware, handleIdempotencyKey, async (req, res) => {
+    try {
+      const outcome = await createGoal(req.body, { id: req.user!.id, name: req.user!.name });
+      sendOutcome(res, outcome);
+    } catch (error) {
+      console.error('Error creating goal:', error);
+      res.status(500).json({ success: false, error: 'Failed to create goal' });
+    }
+  });
+
+  // Update a goal. Send If-Match (or baseVersion) to reject the edit (409) if someone changed it meanwhile.
+  router.put('/:goalId', authMiddleware, handleIdempotencyKey, async (req, res) => {
+    try {
+      const baseVersion = parsePrecondition(req);
+      if (baseVersion === null) {
+        return res.status(400).json({ success: false, error: INVALID_PRECONDITION_ERROR });
+      }
+
+      const outcome = await updateGoal(req.params.goalId, req.body, { id: req.user!.id, name: req.user!.name }, baseVersion);
+      sendOutcome(res, outcome);
+    } catch (error) {
+      console.error('Error updating goal:', error);
+      res.status(500).json({ success: false, error: 'Failed to update goal' });
+    }
+  });
+
+  // Estimate when a goal will be reached and the savings rate needed to meet its deadline
+  router.get('/:goalId/projection', authMiddleware, async (req, res) => {
     try {
       const db = getDb();
+      const { goalId } = req.params;
       const userId = req.user!.id;
-      const { jointAccountId, name, targetAmount, currentAmount = 0, currency, deadline } = req.body;
 
-      if (!jointAccountId || !name || !targetAmount) {
-        return res.status(400).json({ 
+      const goal = await db.collection<Goal>('goals').findOne({ id: goalId });
+
+      if (!goal) {
+        return res.status(404).json({ success: false, error: 'Goal not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: goal.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({ 
           success: false, 
-          error: 'Missing required fields: jointAccountId, name, targetAmount' 
+          error: 'You are not a member of this joint account' 
         });
       }
 
+      const projection = await computeGoalProjection(goal);
+
+      res.json({ success: true, data: projection });
+    } catch (error) {
+      console.error('Error projecting goal:', error);
+      res.status(500).json({ success: false, error: 'Failed to project goal' });
+    }
+  });
+
+  // Get the contributions of a goal (most recent first)
+  router.get('/:goalId/contributions', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { goalId } = req.params;
+      const userId = req.user!.id;
+
+      const goal = await db.collection<Goal>('goals').findOne({ id: goalId });
+
+      if (!goal) {
+        return res.status(404).json({ success: false, error: 'Goal not found' });
+      }
+
       // Verify membership
       const membership = await db.collection('jointAccountMembers')
-        .findOne({ jointAccountId, userId });
+        .findOne({ jointAccountId: goal.jointAccountId, userId });
 
       if (!membership) {
         return res.status(403).json({ 
@@ -54,48 +122,29 @@ export function createGoalRoutes(auth: Auth): Router {
         });
       }
 
-      // Get user info for notification
-      const user = await findUserById(userId, db);
+      const contributions = await db.collection<GoalContribution>('goalContributions')
+        .find({ goalId })
+        .sort({ date: -1, createdAt: -1 })
+        .toArray();
 
-      const now = new Date();
-      const goal: Goal = {
-        id: crypto.randomUUID(),
-        jointAccountId,
-        name,
-        targetAmount: Number(targetAmount),
-        currentAmount: Number(currentAmount),
-        currency: currency || 'USD',
-        deadline,
-        createdAt: now,
-        updatedAt: now
-      };
-
-      await db.collection<Goal>('goals').insertOne(goal);
-
-      // Notify other members about new goal
-      const iconUrl = process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/icon-192.png` : 'https://money-flow-six.vercel.app/icon-192.png';
-      notifyJointAccountMembers(jointAccountId, userId, {
-        title: `🎯 ${user?.name || 'Someone'} created a goal`,
-        body: `"${name}" with target of ${currency || 'USD'} ${Number(targetAmount).toLocaleString()}`,
-        icon: iconUrl,
-        tag: `goal-created-${goal.id}`,
-        data: { type: 'goal', goalId: goal.id, jointAccountId, url: '/goals' }
-      }).catch(err => console.error('Goal notification error:', err));
-
-      res.status(201).json({ success: true, data: goal });
+      res.json({ success: true, data: contributions });
     } catch (error) {
-      console.error('Error creating goal:', error);
-      res.status(500).json({ success: false, error: 'Failed to create goal' });
+      console.error('Error fetching goal contributions:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch goal contributions' });
     }
   });
 
-  // Update a goal
-  router.put('/:goalId', authMiddleware, async (req, res) => {
+  // Add a deposit or withdrawal to a goal
+  router.post('/:goalId/contributions', authMiddleware, async (req, res) => {
     try {
       const db = getDb();
       const { goalId } = req.params;
       const userId = req.user!.id;
-      const { name, targetAmount, currentAmount, currency, deadline } = req.body;
+      const { type = GoalContributionType.DEPOSIT, amount, date, note, transactionId } = req.body;
+
+      if (amount === undefined) {
+        return res.status(400).json({ success: false, error: 'Missing required field: amount' });
+      }
 
       const goal = await db.collection<Goal>('goals').findOne({ id: goalId });
 
@@ -114,63 +163,29 @@ export function createGoalRoutes(auth: Auth): Router {
         });
       }
 
-      // Get user info for notification
       const user = await findUserById(userId, db);
-
-      const updateData: Partial<Goal> = { updatedAt: new Date() };
-      if (name !== undefined) updateData.name = name;
-      if (targetAmount !== undefined) updateData.targetAmount = Number(targetAmount);
-      if (currentAmount !== undefined) updateData.currentAmount = Number(currentAmount);
-      if (currency) updateData.currency = currency;
-      if (deadline !== undefined) updateData.deadline = deadline;
-
-      await db.collection<Goal>('goals').updateOne(
-        { id: goalId },
-        { $set: updateData }
+      const result = await addGoalContribution(
+        goal,
+        { type, amount, date, note, transactionId },
+        { id: userId, name: user?.name || req.user!.name }
       );
 
-      const updated = await db.collection<Goal>('goals').findOne({ id: goalId });
-
-      // Check if progress was made on the goal
-      if (currentAmount !== undefined && updated) {
-        const oldProgress = (goal.currentAmount / goal.targetAmount) * 100;
-        const newProgress = (updated.currentAmount / updated.targetAmount) * 100;
-        
-        // Notify if significant progress (crossed a milestone or goal achieved)
-        if (newProgress >= 100 && oldProgress < 100) {
-          // Goal achieved!
-          notifyJointAccountMembers(goal.jointAccountId, userId, {
-            title: '🎉 Goal achieved!',
-            body: `"${goal.name}" has reached ${goal.currency} ${goal.targetAmount.toLocaleString()}!`,
-            icon: 'https://money-flow-six.vercel.app/icon-192.png',
-            tag: `goal-achieved-${goal.id}`,
-            data: { type: 'goal-achieved', goalId: goal.id, jointAccountId: goal.jointAccountId, url: '/goals' }
-          }).catch(err => console.error('Goal notification error:', err));
-        } else if (newProgress > oldProgress && (Math.floor(newProgress / 25) > Math.floor(oldProgress / 25))) {
-          // Crossed a 25% milestone
-          const milestone = Math.floor(newProgress / 25) * 25;
-          notifyJointAccountMembers(goal.jointAccountId, userId, {
-            title: `📈 ${user?.name || 'Someone'} updated a goal`,
-            body: `"${goal.name}" is now at ${milestone}% (${goal.currency} ${updated.currentAmount.toLocaleString()})`,
-            icon: 'https://money-flow-six.vercel.app/icon-192.png',
-            tag: `goal-progress-${goal.id}`,
-            data: { type: 'goal-progress', goalId: goal.id, jointAccountId: goal.jointAccountId, url: '/goals' }
-          }).catch(err => console.error('Goal notification error:', err));
-        }
+      if (result.error) {
+        return res.status(400).json({ success: false, error: result.error });
       }
 
-      res.json({ success: true, data: updated });
+      res.status(201).json({ success: true, data: { contribution: result.contribution, goal: result.goal } });
     } catch (error) {
-      console.error('Error updating goal:', error);
-      res.status(500).json({ success: false, error: 'Failed to update goal' });
+      console.error('Error adding goal contribution:', error);
+      res.status(500).json({ success: false, error: 'Failed to add goal contribution' });
     }
   });
 
-  // Delete a goal
-  router.delete('/:goalId', authMiddleware, async (req, res) => {
+  // Remove a contribution from a goal
+  router.delete('/:goalId/contributions/:contributionId', authMiddleware, async (req, res) => {
     try {
       const db = getDb();
-      const { goalId } = req.params;
+      const { goalId, contributionId } = req.params;
       const userId = req.user!.id;
 
       const goal = await db.collection<Goal>('goals').findOne({ id: goalId });
@@ -190,9 +205,37 @@ export function createGoalRoutes(auth: Auth): Router {
         });
       }
 
-      await db.collection<Goal>('goals').deleteOne({ id: goalId });
+      const contribution = await db.collection<GoalContribution>('goalContributions')
+        .findOne({ id: contributionId, goalId });
+
+      if (!contribution) {
+        return res.status(404).json({ success: false, error: 'Contribution not found' });
+      }
+
+      const user = await findUserById(userId, db);
+      const result = await removeGoalContribution(goal, contribution, { id: userId, name: user?.name || req.user!.name });
+
+      if (result.error) {
+        return res.status(409).json({ success: false, error: result.error });
+      }
+
+      res.json({ success: true, data: result.goal });
+    } catch (error) {
+      console.error('Error removing goal contribution:', error);
+      res.status(500).json({ success: false, error: 'Failed to remove goal contribution' });
+    }
+  });
+
+  // Delete a goal
+  router.delete('/:goalId', authMiddleware, handleIdempotencyKey, async (req, res) => {
+    try {
+      const baseVersion = parsePrecondition(req);
+      if (baseVersion === null) {
+        return res.status(400).json({ success: false, error: INVALID_PRECONDITION_ERROR });
+      }
 
-      res.json({ success: true, message: 'Goal deleted' });
+      const outcome = await deleteGoal(req.params.goalId, { id: req.user!.id, name: req.user!.name }, baseVersion);
+      sendOutcome(res, outcome, 'Goal deleted');
     } catch (error) {
       console.error('Error deleting goal:', error);
       res.status(500).json({ success: false, error: 'Failed to delete goal' });
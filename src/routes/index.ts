@@ -7,3 +7,12 @@ export { createPushRoutes } from './push.js';
 export { createUserRoutes } from './user.js';
 export { createAIRoutes } from './ai.js';
 export { createAuthRoutes } from './authRoutes.js';
+export { createExchangeRateRoutes } from './exchangeRates.js';
+export { createBudgetRoutes } from './budgets.js';
+export { createEnvelopeRoutes } from './envelopes.js';
+export { createRecurringRoutes } from './recurring.js';
+export { createAutoSaveRoutes } from './autoSave.js';
+export { createCategoryRoutes } from './categories.js';
+export { createSyncRoutes } from './sync.js';
+export { createAuditRoutes } from './audit.js';
+export { createTrashRoutes } from './trash.js';
@@ -2,18 +2,30 @@ import { Router } from 'express';
 import { getDb } from '../config/database.js';
 import { createAuthMiddleware } from '../middleware/auth.js';
 import { requireJointAccountAdmin, requireJointAccountMember } from '../middleware/jointAccount.js';
-import { emitToUser, emitToJointAccount, SocketEvents } from '../services/socketService.js';
+import { emitToUser, emitToJointAccount, removeUserFromJointAccount, SocketEvents } from '../services/socketService.js';
 import { sendNotificationToUser, notifyJointAccountMembers } from '../services/pushService.js';
+import { recordAudit } from '../services/auditService.js';
+import { deleteJointAccountCascade } from '../services/jointAccountService.js';
 import { 
+  AuditAction,
   JointAccount, 
   JointAccountMember, 
   JointAccountInvite,
   JointAccountRole, 
   InviteStatus,
-  Currency 
+  Currency,
+  BudgetingMode
 } from '../types/index.js';
 import { Auth } from '../config/auth.js';
 import { findUserById } from '../utils/userLookup.js';
+import {
+  currentVersion,
+  INVALID_PRECONDITION_ERROR,
+  parsePrecondition,
+  sendOutcome,
+  setReadETag,
+  versionFilter
+} from '../utils/mutations.js';
 
 export function createJointAccountRoutes(auth: Auth): Router {
   const router = Router();
@@ -142,6 +154,7 @@ export function createJointAccountRoutes(auth: Auth): Router {
         name,
         primaryCurrency,
         adminUserId: userId,
+        version: 1,
         createdAt: now,
         updatedAt: now
       };
@@ -157,6 +170,15 @@ export function createJointAccountRoutes(auth: Auth): Router {
 
       await db.collection<JointAccount>('jointAccounts').insertOne(jointAccount);
       await db.collection<JointAccountMember>('jointAccountMembers').insertOne(membership);
+      await recordAudit({
+        jointAccountId: accountId,
+        entity: 'member',
+        entityId: membershipId,
+        action: AuditAction.CREATE,
+        actor: { id: userId, name: req.user!.name },
+        after: membership,
+        note: 'Created the account'
+      });
 
       console.log('✅ Joint account created:', accountId);
 
@@ -203,6 +225,7 @@ export function createJointAccountRoutes(auth: Auth): Router {
         };
       });
 
+      setReadETag(res, account);
       res.json({ 
         success: true, 
         data: { 
@@ -217,26 +240,71 @@ export function createJointAccountRoutes(auth: Auth): Router {
     }
   });
 
-  // Update joint account (admin only)
+  // Update joint account (admin only). Send If-Match (or baseVersion) to reject the change (409)
+  // if the settings were changed meanwhile.
   router.put('/:jointAccountId', authMiddleware, requireJointAccountAdmin, async (req, res) => {
     try {
       const db = getDb();
       const { jointAccountId } = req.params;
-      const { name, primaryCurrency } = req.body;
+      const { name, primaryCurrency, budgetingMode } = req.body;
+
+      const baseVersion = parsePrecondition(req);
+      if (baseVersion === null) {
+        return res.status(400).json({ success: false, error: INVALID_PRECONDITION_ERROR });
+      }
+
+      if (budgetingMode !== undefined && !Object.values(BudgetingMode).includes(budgetingMode)) {
+        return res.status(400).json({
+          success: false,
+          error: `budgetingMode must be one of: ${Object.values(BudgetingMode).join(', ')}`
+        });
+      }
 
-      const updateData: Partial<JointAccount> = { updatedAt: new Date() };
+      const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
+
+      if (!account) {
+        return res.status(404).json({ success: false, error: 'Joint account not found' });
+      }
+
+      if (baseVersion !== undefined && baseVersion !== currentVersion(account)) {
+        return sendOutcome(res, {
+          ok: false,
+          status: 409,
+          error: 'This joint account was changed by someone else',
+          current: account
+        });
+      }
+
+      const updateData: Partial<JointAccount> = { updatedAt: new Date(), version: currentVersion(account) + 1 };
       if (name) updateData.name = name;
       if (primaryCurrency) updateData.primaryCurrency = primaryCurrency;
+      if (budgetingMode) updateData.budgetingMode = budgetingMode;
 
-      await db.collection<JointAccount>('jointAccounts').updateOne(
-        { id: jointAccountId },
+      const result = await db.collection<JointAccount>('jointAccounts').updateOne(
+        { id: jointAccountId, ...versionFilter(currentVersion(account)) },
         { $set: updateData }
       );
 
       const updated = await db.collection<JointAccount>('jointAccounts')
         .findOne({ id: jointAccountId });
 
-      res.json({ success: true, data: updated });
+      if (!updated) {
+        return res.status(404).json({ success: false, error: 'Joint account not found' });
+      }
+
+      if (result.matchedCount === 0) {
+        return sendOutcome(res, {
+          ok: false,
+          status: 409,
+          error: 'This joint account was changed by someone else',
+          current: updated
+        });
+      }
+
+      // Emit real-time update to joint account members
+      emitToJointAccount(jointAccountId, SocketEvents.JOINT_ACCOUNT_UPDATED, updated);
+
+      sendOutcome(res, { ok: true, status: 200, data: updated });
     } catch (error) {
       console.error('Error updating joint account:', error);
       res.status(500).json({ success: false, error: 'Failed to update joint account' });
@@ -294,6 +362,14 @@ export function createJointAccountRoutes(auth: Auth): Router {
       };
 
       await db.collection<JointAccountInvite>('jointAccountInvites').insertOne(invite);
+      await recordAudit({
+        jointAccountId,
+        entity: 'invite',
+        entityId: invite.id,
+        action: AuditAction.CREATE,
+        actor: { id: inviterId, name: req.user!.name },
+        after: invite
+      });
 
       // Emit socket event to invited user if they exist
       const invitedUser = await db.collection('user').findOne({ email: email.toLowerCase() });
@@ -400,6 +476,15 @@ export function createJointAccountRoutes(auth: Auth): Router {
         { id: inviteId },
         { $set: { status: newStatus } }
       );
+      await recordAudit({
+        jointAccountId: invite.jointAccountId,
+        entity: 'invite',
+        entityId: inviteId,
+        action: AuditAction.UPDATE,
+        actor: { id: userId, name: req.user!.name },
+        before: invite,
+        after: { ...invite, status: newStatus }
+      });
 
       // Get account and user info for socket events
       const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: invite.jointAccountId });
@@ -416,6 +501,15 @@ export function createJointAccountRoutes(auth: Auth): Router {
         };
 
         await db.collection<JointAccountMember>('jointAccountMembers').insertOne(membership);
+        await recordAudit({
+          jointAccountId: invite.jointAccountId,
+          entity: 'member',
+          entityId: membership.id,
+          action: AuditAction.CREATE,
+          actor: { id: userId, name: req.user!.name },
+          after: membership,
+          note: 'Accepted an invitation'
+        });
 
         // Emit to admin that a new member joined
         if (account) {
@@ -537,6 +631,18 @@ export function createJointAccountRoutes(auth: Auth): Router {
 
       await db.collection<JointAccountMember>('jointAccountMembers').deleteOne({ id: memberToRemove.id });
       console.log('Member removed successfully');
+      await recordAudit({
+        jointAccountId,
+        entity: 'member',
+        entityId: memberToRemove.id,
+        action: AuditAction.DELETE,
+        actor: { id: userId, name: req.user!.name },
+        before: memberToRemove,
+        note: isSelf ? 'Left the account' : 'Removed by the admin'
+      });
+
+      // Stop their open sockets from receiving this account's events
+      removeUserFromJointAccount(memberToRemove.userId, jointAccountId);
 
       // Notify admin if a member left voluntarily
       if (isSelf && !isAdmin) {
@@ -593,24 +699,51 @@ export function createJointAccountRoutes(auth: Auth): Router {
     }
   });
 
-  // Delete a joint account (admin only)
+  // Delete a joint account (admin only) with all of its data: members, invites, transactions,
+  // goals, subscriptions, budgets, envelopes, custom categories and history
   router.delete('/:jointAccountId', authMiddleware, requireJointAccountAdmin, async (req, res) => {
     try {
       const db = getDb();
       const { jointAccountId } = req.params;
+      const userId = req.user!.id;
+
+      const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
 
-      // Delete all members
-      await db.collection<JointAccountMember>('jointAccountMembers').deleteMany({ jointAccountId });
+      if (!account) {
+        return res.status(404).json({ success: false, error: 'Joint account not found' });
+      }
 
-      // Delete all invites
-      await db.collection<JointAccountInvite>('jointAccountInvites').deleteMany({ jointAccountId });
+      // Members are gone after the cascade, so look them up first
+      const members = await db.collection<JointAccountMember>('jointAccountMembers')
+        .find({ jointAccountId })
+        .toArray();
 
-      // Delete the account itself
-      await db.collection<JointAccount>('jointAccounts').deleteOne({ id: jointAccountId });
+      const deleted = await deleteJointAccountCascade(jointAccountId);
 
-      console.log('✅ Joint account deleted:', jointAccountId);
+      console.log('✅ Joint account deleted:', jointAccountId, deleted);
 
-      res.json({ success: true, message: 'Joint account deleted successfully' });
+      // The account's room and change log are gone, so members are told through their own rooms
+      const user = await findUserById(userId, db);
+      for (const member of members) {
+        emitToUser(member.userId, SocketEvents.JOINT_ACCOUNT_DELETED, {
+          jointAccountId,
+          accountName: account.name,
+          deletedBy: userId
+        });
+        removeUserFromJointAccount(member.userId, jointAccountId);
+
+        if (member.userId !== userId) {
+          sendNotificationToUser(member.userId, {
+            title: '🗑️ Joint account deleted',
+            body: `${user?.name || 'The admin'} deleted "${account.name}"`,
+            icon: 'https://money-flow-six.vercel.app/icon-192.png',
+            tag: `joint-account-deleted-${jointAccountId}`,
+            data: { type: 'joint-account-deleted', jointAccountId, url: '/settings?tab=joint-accounts' }
+          }).catch(err => console.error('Notification error:', err));
+        }
+      }
+
+      res.json({ success: true, message: 'Joint account deleted successfully', data: { deleted } });
     } catch (error) {
       console.error('Error deleting joint account:', error);
       res.status(500).json({ success: false, error: 'Failed to delete joint account' });
@@ -642,13 +775,23 @@ export function createJointAccountRoutes(auth: Auth): Router {
       const db = getDb();
       const { inviteId, jointAccountId } = req.params;
 
-      const result = await db.collection<JointAccountInvite>('jointAccountInvites')
-        .deleteOne({ id: inviteId, jointAccountId });
+      const invite = await db.collection<JointAccountInvite>('jointAccountInvites')
+        .findOneAndDelete({ id: inviteId, jointAccountId });
 
-      if (result.deletedCount === 0) {
+      if (!invite) {
         return res.status(404).json({ success: false, error: 'Invitation not found' });
       }
 
+      await recordAudit({
+        jointAccountId,
+        entity: 'invite',
+        entityId: inviteId,
+        action: AuditAction.DELETE,
+        actor: { id: req.user!.id, name: req.user!.name },
+        before: invite,
+        note: 'Cancelled'
+      });
+
       res.json({ success: true, message: 'Invitation cancelled' });
     } catch (error) {
       console.error('Error cancelling invite:', error);
@@ -0,0 +1,240 @@
+import { Router } from 'express';
+import { getDb } from '../config/database.js';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import { requireJointAccountMember } from '../middleware/jointAccount.js';
+import { JointAccount, RecurrenceFrequency, RecurringRule, TransactionType } from '../types/index.js';
+import { Auth } from '../config/auth.js';
+import { firstOccurrenceFrom, postRuleOccurrences, upcomingOccurrences } from '../services/recurringService.js';
+import { isISODate, todayISO } from '../utils/dates.js';
+
+// Validate the schedule part of a rule; returns an error message or null
+function validateSchedule(rule: Pick<RecurringRule, 'frequency' | 'startDate' | 'endDate' | 'maxOccurrences'>): string | null {
+  if (!Object.values(RecurrenceFrequency).includes(rule.frequency)) {
+    return `frequency must be one of: ${Object.values(RecurrenceFrequency).join(', ')}`;
+  }
+  if (!isISODate(rule.startDate)) return 'startDate must be in YYYY-MM-DD format';
+  if (rule.endDate != null) {
+    if (!isISODate(rule.endDate)) return 'endDate must be in YYYY-MM-DD format';
+    if (rule.endDate < rule.startDate) return 'endDate must be on or after startDate';
+  }
+  if (rule.maxOccurrences != null && (!Number.isInteger(rule.maxOccurrences) || rule.maxOccurrences < 1)) {
+    return 'maxOccurrences must be a positive whole number';
+  }
+  return null;
+}
+
+function withUpcoming(rule: RecurringRule) {
+  return { ...rule, upcoming: upcomingOccurrences(rule, 3) };
+}
+
+export function createRecurringRoutes(auth: Auth): Router {
+  const router = Router();
+  const authMiddleware = createAuthMiddleware(auth);
+
+  // Get all recurring rules for a joint account
+  router.get('/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+
+      const rules = await db.collection<RecurringRule>('recurringRules')
+        .find({ jointAccountId })
+        .sort({ nextRunDate: 1 })
+        .toArray();
+
+      res.json({ success: true, data: rules.map(withUpcoming) });
+    } catch (error) {
+      console.error('Error fetching recurring rules:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch recurring rules' });
+    }
+  });
+
+  // Create a recurring rule. Occurrences before today are only posted with backfill=true.
+  router.post('/', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const userId = req.user!.id;
+      const userName = req.user!.name;
+      const {
+        jointAccountId,
+        amount,
+        currency,
+        type,
+        category,
+        note,
+        envelopeId,
+        frequency,
+        startDate,
+        endDate,
+        maxOccurrences,
+        backfill = false
+      } = req.body;
+
+      if (!amount || !type || !category || !frequency) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: jointAccountId, amount, type, category, frequency'
+        });
+      }
+
+      if (!Object.values(TransactionType).includes(type)) {
+        return res.status(400).json({ success: false, error: 'type must be INCOME or EXPENSE' });
+      }
+
+      const schedule = {
+        frequency,
+        startDate: startDate || todayISO(),
+        endDate: endDate || undefined,
+        maxOccurrences: maxOccurrences !== undefined ? Number(maxOccurrences) : undefined
+      };
+      const scheduleError = validateSchedule(schedule);
+      if (scheduleError) {
+        return res.status(400).json({ success: false, error: scheduleError });
+      }
+
+      const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
+      const first = backfill ? { index: 0, date: schedule.startDate } : firstOccurrenceFrom(schedule, todayISO());
+
+      const now = new Date();
+      const rule: RecurringRule = {
+        id: crypto.randomUUID(),
+        jointAccountId,
+        amount: Number(amount),
+        currency: currency || account?.primaryCurrency || 'USD',
+        type,
+        category,
+        note,
+        envelopeId,
+        ...schedule,
+        nextOccurrence: first.index,
+        nextRunDate: first.date,
+        active: true,
+        createdByUserId: userId,
+        createdByUserName: userName,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await db.collection<RecurringRule>('recurringRules').insertOne(rule);
+
+      // Post anything due today right away instead of waiting for the scheduler
+      const posted = await postRuleOccurrences(rule);
+      const saved = await db.collection<RecurringRule>('recurringRules').findOne({ id: rule.id });
+
+      res.status(201).json({ success: true, data: { ...withUpcoming(saved || rule), posted: posted.length } });
+    } catch (error) {
+      console.error('Error creating recurring rule:', error);
+      res.status(500).json({ success: false, error: 'Failed to create recurring rule' });
+    }
+  });
+
+  // Update a recurring rule. Changing the schedule (or resuming) continues from today without backfilling.
+  router.put('/:ruleId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { ruleId } = req.params;
+      const userId = req.user!.id;
+      const { amount, currency, type, category, note, envelopeId, frequency, startDate, endDate, maxOccurrences, active } = req.body;
+
+      const rule = await db.collection<RecurringRule>('recurringRules').findOne({ id: ruleId });
+
+      if (!rule) {
+        return res.status(404).json({ success: false, error: 'Recurring rule not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: rule.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      const updateData: Partial<RecurringRule> = { updatedAt: new Date() };
+      if (amount !== undefined) updateData.amount = Number(amount);
+      if (currency) updateData.currency = currency;
+      if (type) {
+        if (!Object.values(TransactionType).includes(type)) {
+          return res.status(400).json({ success: false, error: 'type must be INCOME or EXPENSE' });
+        }
+        updateData.type = type;
+      }
+      if (category) updateData.category = category;
+      if (note !== undefined) updateData.note = note;
+      if (envelopeId !== undefined) updateData.envelopeId = envelopeId || undefined;
+      if (active !== undefined) updateData.active = active === true;
+
+      const scheduleChanged = frequency !== undefined || startDate !== undefined
+        || endDate !== undefined || maxOccurrences !== undefined;
+      const resumed = updateData.active === true && !rule.active;
+
+      if (scheduleChanged || resumed) {
+        const schedule = {
+          frequency: frequency ?? rule.frequency,
+          startDate: startDate ?? rule.startDate,
+          endDate: endDate === undefined ? rule.endDate : endDate || undefined,
+          maxOccurrences: maxOccurrences === undefined
+            ? rule.maxOccurrences
+            : maxOccurrences === null ? undefined : Number(maxOccurrences)
+        };
+        const scheduleError = validateSchedule(schedule);
+        if (scheduleError) {
+          return res.status(400).json({ success: false, error: scheduleError });
+        }
+
+        const next = firstOccurrenceFrom(schedule, todayISO());
+        Object.assign(updateData, schedule, { nextOccurrence: next.index, nextRunDate: next.date });
+      }
+
+      await db.collection<RecurringRule>('recurringRules').updateOne(
+        { id: ruleId },
+        { $set: updateData }
+      );
+
+      const updated = await db.collection<RecurringRule>('recurringRules').findOne({ id: ruleId });
+
+      res.json({ success: true, data: updated && withUpcoming(updated) });
+    } catch (error) {
+      console.error('Error updating recurring rule:', error);
+      res.status(500).json({ success: false, error: 'Failed to update recurring rule' });
+    }
+  });
+
+  // Delete a recurring rule (transactions it already posted are kept)
+  router.delete('/:ruleId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { ruleId } = req.params;
+      const userId = req.user!.id;
+
+      const rule = await db.collection<RecurringRule>('recurringRules').findOne({ id: ruleId });
+
+      if (!rule) {
+        return res.status(404).json({ success: false, error: 'Recurring rule not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: rule.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a member of this joint account'
+        });
+      }
+
+      await db.collection<RecurringRule>('recurringRules').deleteOne({ id: ruleId });
+
+      res.json({ success: true, message: 'Recurring rule deleted' });
+    } catch (error) {
+      console.error('Error deleting recurring rule:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete recurring rule' });
+    }
+  });
+
+  return router;
+}
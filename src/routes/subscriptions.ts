@@ -1,9 +1,24 @@
 import { Router } from 'express';
 import { getDb } from '../config/database.js';
 import { createAuthMiddleware } from '../middleware/auth.js';
+import { handleIdempotencyKey } from '../middleware/idempotency.js';
 import { requireJointAccountMember } from '../middleware/jointAccount.js';
-import { Subscription } from '../types/index.js';
+import { AuditAction, Currency, JointAccount, Subscription, SubscriptionCharge, SubscriptionPriceChange, SubscriptionProposal, SubscriptionStatus } from '../types/index.js';
 import { Auth } from '../config/auth.js';
+import { refreshSubscriptionProposals } from '../services/subscriptionDetectionService.js';
+import {
+  createSubscription,
+  deleteSubscription,
+  updateSubscription,
+  yearlyCost,
+  yearlyImpact
+} from '../services/subscriptionService.js';
+import { createCurrencyConverter } from '../services/exchangeRateService.js';
+import { recordAudit } from '../services/auditService.js';
+import { emitToJointAccount, SocketEvents } from '../services/socketService.js';
+import { billingDayOf, validateBillingCycle } from '../utils/billing.js';
+import { addMonthsISO, isISODate, todayISO } from '../utils/dates.js';
+import { INVALID_PRECONDITION_ERROR, parsePrecondition, sendOutcome } from '../utils/mutations.js';
 
 export function createSubscriptionRoutes(auth: Auth): Router {
   const router = Router();
@@ -27,23 +42,67 @@ export function createSubscriptionRoutes(auth: Auth): Router {
     }
   });
 
-  // Create a new subscription
-  router.post('/', authMiddleware, async (req, res) => {
+  // Create a new subscription (a client-generated id makes retries safe)
+  router.post('/', authMiddleware, handleIdempotencyKey, async (req, res) => {
+    try {
+      const outcome = await createSubscription(req.body, { id: req.user!.id, name: req.user!.name });
+      sendOutcome(res, outcome);
+    } catch (error) {
+      console.error('Error creating subscription:', error);
+      res.status(500).json({ success: false, error: 'Failed to create subscription' });
+    }
+  });
+
+  // Scan a joint account's transactions for recurring charges and refresh the proposals
+  router.post('/proposals/joint-account/:jointAccountId/scan', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const { jointAccountId } = req.params;
+
+      const proposals = await refreshSubscriptionProposals(jointAccountId);
+
+      res.json({ success: true, data: proposals });
+    } catch (error) {
+      console.error('Error detecting subscriptions:', error);
+      res.status(500).json({ success: false, error: 'Failed to detect subscriptions' });
+    }
+  });
+
+  // Get pending subscription proposals for a joint account
+  router.get('/proposals/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
     try {
       const db = getDb();
+      const { jointAccountId } = req.params;
+
+      const proposals = await db.collection<SubscriptionProposal>('subscriptionProposals')
+        .find({ jointAccountId, status: 'PENDING' })
+        .sort({ confidence: -1 })
+        .toArray();
+
+      res.json({ success: true, data: proposals });
+    } catch (error) {
+      console.error('Error fetching subscription proposals:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch subscription proposals' });
+    }
+  });
+
+  // Accept a proposal, creating the subscription. Fields in the body override the detected values.
+  router.post('/proposals/:proposalId/accept', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { proposalId } = req.params;
       const userId = req.user!.id;
-      const { jointAccountId, name, amount, currency, cycle, nextBillingDate } = req.body;
+      const userName = req.user!.name;
 
-      if (!jointAccountId || !name || !amount || !cycle) {
-        return res.status(400).json({ 
-          success: false, 
-          error: 'Missing required fields: jointAccountId, name, amount, cycle' 
-        });
+      const proposal = await db.collection<SubscriptionProposal>('subscriptionProposals')
+        .findOne({ id: proposalId });
+
+      if (!proposal) {
+        return res.status(404).json({ success: false, error: 'Proposal not found' });
       }
 
       // Verify membership
       const membership = await db.collection('jointAccountMembers')
-        .findOne({ jointAccountId, userId });
+        .findOne({ jointAccountId: proposal.jointAccountId, userId });
 
       if (!membership) {
         return res.status(403).json({ 
@@ -52,35 +111,194 @@ export function createSubscriptionRoutes(auth: Auth): Router {
         });
       }
 
+      const cycle = req.body.cycle || proposal.cycle;
+      const customInterval = req.body.customInterval || proposal.customInterval;
+      const cycleError = validateBillingCycle(cycle, customInterval);
+      if (cycleError) {
+        return res.status(400).json({ success: false, error: cycleError });
+      }
+
+      const nextBillingDate = req.body.nextBillingDate || proposal.nextBillingDate;
+      if (!isISODate(nextBillingDate)) {
+        return res.status(400).json({ success: false, error: 'nextBillingDate must be in YYYY-MM-DD format' });
+      }
+
+      const amount = req.body.amount !== undefined ? Number(req.body.amount) : proposal.amount;
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return res.status(400).json({ success: false, error: 'amount must be a positive number' });
+      }
+
+      const currency = req.body.currency || proposal.currency;
+      if (!Object.values(Currency).includes(currency)) {
+        return res.status(400).json({ success: false, error: 'Unsupported currency' });
+      }
+
       const now = new Date();
       const subscription: Subscription = {
         id: crypto.randomUUID(),
-        jointAccountId,
-        name,
-        amount: Number(amount),
-        currency: currency || 'USD',
+        jointAccountId: proposal.jointAccountId,
+        name: req.body.name || proposal.name,
+        amount,
+        currency,
         cycle,
-        nextBillingDate: nextBillingDate || now.toISOString().split('T')[0],
+        ...(cycle === 'Custom' && { customInterval: { every: customInterval.every, unit: customInterval.unit } }),
+        status: SubscriptionStatus.ACTIVE,
+        nextBillingDate,
+        billingDay: billingDayOf(nextBillingDate),
+        postCharges: req.body.postCharges === true,
+        ...(req.body.category && { category: req.body.category }),
+        createdByUserId: userId,
+        createdByUserName: userName,
+        version: 1,
         createdAt: now,
         updatedAt: now
       };
 
-      await db.collection<Subscription>('subscriptions').insertOne(subscription);
+      // Claim the proposal so two members accepting at once don't create two subscriptions
+      const claimed = await db.collection<SubscriptionProposal>('subscriptionProposals').updateOne(
+        { id: proposalId, status: 'PENDING' },
+        { $set: { status: 'ACCEPTED', subscriptionId: subscription.id, decidedByUserId: userId, decidedAt: now, updatedAt: now } }
+      );
+
+      if (claimed.modifiedCount === 0) {
+        return res.status(409).json({ success: false, error: 'This proposal was already accepted or dismissed' });
+      }
+
+      try {
+        await db.collection<Subscription>('subscriptions').insertOne(subscription);
+      } catch (error) {
+        // Hand the proposal back so it can be accepted again
+        await db.collection<SubscriptionProposal>('subscriptionProposals').updateOne(
+          { id: proposalId, subscriptionId: subscription.id },
+          {
+            $set: { status: 'PENDING', updatedAt: new Date() },
+            $unset: { subscriptionId: '', decidedByUserId: '', decidedAt: '' }
+          }
+        );
+        throw error;
+      }
+
+      await recordAudit({
+        jointAccountId: subscription.jointAccountId,
+        entity: 'subscription',
+        entityId: subscription.id,
+        action: AuditAction.CREATE,
+        actor: { id: userId, name: userName },
+        after: subscription,
+        note: 'Accepted detected subscription'
+      });
+
+      // Emit real-time update to joint account members
+      emitToJointAccount(subscription.jointAccountId, SocketEvents.SUBSCRIPTION_CREATED, subscription);
 
       res.status(201).json({ success: true, data: subscription });
     } catch (error) {
-      console.error('Error creating subscription:', error);
-      res.status(500).json({ success: false, error: 'Failed to create subscription' });
+      console.error('Error accepting subscription proposal:', error);
+      res.status(500).json({ success: false, error: 'Failed to accept subscription proposal' });
     }
   });
 
-  // Update a subscription
-  router.put('/:subscriptionId', authMiddleware, async (req, res) => {
+  // Dismiss a proposal so it isn't suggested again
+  router.post('/proposals/:proposalId/dismiss', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { proposalId } = req.params;
+      const userId = req.user!.id;
+
+      const proposal = await db.collection<SubscriptionProposal>('subscriptionProposals')
+        .findOne({ id: proposalId });
+
+      if (!proposal) {
+        return res.status(404).json({ success: false, error: 'Proposal not found' });
+      }
+
+      // Verify membership
+      const membership = await db.collection('jointAccountMembers')
+        .findOne({ jointAccountId: proposal.jointAccountId, userId });
+
+      if (!membership) {
+        return res.status(403).json({ 
+          success: false, 
+          error: 'You are not a member of this joint account' 
+        });
+      }
+
+      const now = new Date();
+      const dismissed = await db.collection<SubscriptionProposal>('subscriptionProposals').updateOne(
+        { id: proposalId, status: 'PENDING' },
+        { $set: { status: 'DISMISSED', decidedByUserId: userId, decidedAt: now, updatedAt: now } }
+      );
+
+      if (dismissed.modifiedCount === 0) {
+        return res.status(409).json({ success: false, error: 'This proposal was already accepted or dismissed' });
+      }
+
+      res.json({ success: true, message: 'Proposal dismissed' });
+    } catch (error) {
+      console.error('Error dismissing subscription proposal:', error);
+      res.status(500).json({ success: false, error: 'Failed to dismiss subscription proposal' });
+    }
+  });
+
+  // Price changes across a joint account's subscriptions and what they add to the yearly bill.
+  // Covers the last 12 months unless ?since=YYYY-MM-DD is given.
+  router.get('/price-changes/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+      const since = (req.query.since as string) || addMonthsISO(todayISO(), -12);
+
+      if (!isISODate(since)) {
+        return res.status(400).json({ success: false, error: 'since must be in YYYY-MM-DD format' });
+      }
+
+      const [account, changes, subscriptions] = await Promise.all([
+        db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId }),
+        db.collection<SubscriptionPriceChange>('subscriptionPriceChanges')
+          .find({ jointAccountId, effectiveDate: { $gte: since } })
+          .sort({ effectiveDate: -1 })
+          .toArray(),
+        db.collection<Subscription>('subscriptions').find({ jointAccountId }).toArray()
+      ]);
+
+      const currency = account?.primaryCurrency || 'USD';
+      const converter = createCurrencyConverter(currency);
+      const byId = new Map(subscriptions.map(s => [s.id, s]));
+
+      let totalYearlyImpact = 0;
+      const data: Array<SubscriptionPriceChange & { subscriptionName: string; yearlyImpact: number | null }> = [];
+      for (const change of changes) {
+        const subscription = byId.get(change.subscriptionId);
+        if (!subscription) continue;
+        const impact = yearlyImpact(change, subscription);
+        if (impact !== null) {
+          // Changes without a known rate are listed but left out of the total
+          totalYearlyImpact += (await converter.convert(impact, change.currency, change.effectiveDate)) ?? 0;
+        }
+        data.push({ ...change, subscriptionName: subscription.name, yearlyImpact: impact });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          since,
+          currency,
+          totalYearlyImpact: Math.round(totalYearlyImpact * 100) / 100,
+          changes: data
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching subscription price changes:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch subscription price changes' });
+    }
+  });
+
+  // Price history of a subscription (most recent first) with the yearly impact of each change
+  router.get('/:subscriptionId/price-history', authMiddleware, async (req, res) => {
     try {
       const db = getDb();
       const { subscriptionId } = req.params;
       const userId = req.user!.id;
-      const { name, amount, currency, cycle, nextBillingDate } = req.body;
 
       const subscription = await db.collection<Subscription>('subscriptions')
         .findOne({ id: subscriptionId });
@@ -100,30 +318,28 @@ export function createSubscriptionRoutes(auth: Auth): Router {
         });
       }
 
-      const updateData: Partial<Subscription> = { updatedAt: new Date() };
-      if (name !== undefined) updateData.name = name;
-      if (amount !== undefined) updateData.amount = Number(amount);
-      if (currency) updateData.currency = currency;
-      if (cycle) updateData.cycle = cycle;
-      if (nextBillingDate) updateData.nextBillingDate = nextBillingDate;
-
-      await db.collection<Subscription>('subscriptions').updateOne(
-        { id: subscriptionId },
-        { $set: updateData }
-      );
-
-      const updated = await db.collection<Subscription>('subscriptions')
-        .findOne({ id: subscriptionId });
+      const changes = await db.collection<SubscriptionPriceChange>('subscriptionPriceChanges')
+        .find({ subscriptionId })
+        .sort({ effectiveDate: -1 })
+        .toArray();
 
-      res.json({ success: true, data: updated });
+      res.json({
+        success: true,
+        data: {
+          amount: subscription.amount,
+          currency: subscription.currency,
+          yearlyCost: yearlyCost(subscription.amount, subscription),
+          changes: changes.map(change => ({ ...change, yearlyImpact: yearlyImpact(change, subscription) }))
+        }
+      });
     } catch (error) {
-      console.error('Error updating subscription:', error);
-      res.status(500).json({ success: false, error: 'Failed to update subscription' });
+      console.error('Error fetching subscription price history:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch subscription price history' });
     }
   });
 
-  // Delete a subscription
-  router.delete('/:subscriptionId', authMiddleware, async (req, res) => {
+  // Billing history of a subscription (most recent first)
+  router.get('/:subscriptionId/charges', authMiddleware, async (req, res) => {
     try {
       const db = getDb();
       const { subscriptionId } = req.params;
@@ -147,9 +363,53 @@ export function createSubscriptionRoutes(auth: Auth): Router {
         });
       }
 
-      await db.collection<Subscription>('subscriptions').deleteOne({ id: subscriptionId });
+      const charges = await db.collection<SubscriptionCharge>('subscriptionCharges')
+        .find({ subscriptionId })
+        .sort({ billingDate: -1 })
+        .toArray();
+
+      res.json({ success: true, data: charges });
+    } catch (error) {
+      console.error('Error fetching subscription charges:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch subscription charges' });
+    }
+  });
+
+  // Update a subscription. Send If-Match (or baseVersion) to reject the edit (409) if someone changed it meanwhile.
+  router.put('/:subscriptionId', authMiddleware, handleIdempotencyKey, async (req, res) => {
+    try {
+      const baseVersion = parsePrecondition(req);
+      if (baseVersion === null) {
+        return res.status(400).json({ success: false, error: INVALID_PRECONDITION_ERROR });
+      }
+
+      const outcome = await updateSubscription(
+        req.params.subscriptionId,
+        req.body,
+        { id: req.user!.id, name: req.user!.name },
+        baseVersion
+      );
+      sendOutcome(res, outcome);
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      res.status(500).json({ success: false, error: 'Failed to update subscription' });
+    }
+  });
+
+  // Delete a subscription
+  router.delete('/:subscriptionId', authMiddleware, handleIdempotencyKey, async (req, res) => {
+    try {
+      const baseVersion = parsePrecondition(req);
+      if (baseVersion === null) {
+        return res.status(400).json({ success: false, error: INVALID_PRECONDITION_ERROR });
+      }
 
-      res.json({ success: true, message: 'Subscription deleted' });
+      const outcome = await deleteSubscription(
+        req.params.subscriptionId,
+        { id: req.user!.id, name: req.user!.name },
+        baseVersion
+      );
+      sendOutcome(res, outcome, 'Subscription deleted');
     } catch (error) {
       console.error('Error deleting subscription:', error);
       res.status(500).json({ success: false, error: 'Failed to delete subscription' });
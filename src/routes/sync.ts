@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import { requireJointAccountMember } from '../middleware/jointAccount.js';
+import { Auth } from '../config/auth.js';
+import { getChangesSince, MAX_SYNC_CHANGES } from '../services/changeLogService.js';
+import { applyMutationBatch, MAX_BATCH_MUTATIONS } from '../services/mutationService.js';
+
+export function createSyncRoutes(auth: Auth): Router {
+  const router = Router();
+  const authMiddleware = createAuthMiddleware(auth);
+
+  // Get every change to a joint account after a sequence number (creates, updates and deletes).
+  // Clients keep the last seq they applied and call again while hasMore is true.
+  router.get('/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const { jointAccountId } = req.params;
+      const since = req.query.since === undefined ? 0 : Number(req.query.since);
+      const limit = req.query.limit === undefined ? MAX_SYNC_CHANGES : Number(req.query.limit);
+
+      if (!Number.isInteger(since) || since < 0) {
+        return res.status(400).json({ success: false, error: 'since must be a sequence number (0 or more)' });
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SYNC_CHANGES) {
+        return res.status(400).json({ success: false, error: `limit must be between 1 and ${MAX_SYNC_CHANGES}` });
+      }
+
+      const result = await getChangesSince(jointAccountId, since, limit);
+
+      res.json({ success: true, data: result });
+    } catch (error) {
+      console.error('Error syncing joint account:', error);
+      res.status(500).json({ success: false, error: 'Failed to sync joint account' });
+    }
+  });
+
+  // Apply a queue of offline mutations (creates, updates and deletes of transactions, goals and
+  // subscriptions) in order. Each item gets its own report: APPLIED, CONFLICT (with the server
+  // copy), NOT_FOUND or REJECTED. Sending the same batch again replays the earlier reports.
+  router.post('/:jointAccountId/mutations', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const { jointAccountId } = req.params;
+      const { mutations } = req.body;
+
+      if (!Array.isArray(mutations) || mutations.length === 0) {
+        return res.status(400).json({ success: false, error: 'mutations must be a non-empty array' });
+      }
+      if (mutations.length > MAX_BATCH_MUTATIONS) {
+        return res.status(400).json({ success: false, error: `Send at most ${MAX_BATCH_MUTATIONS} mutations per batch` });
+      }
+
+      const results = await applyMutationBatch(jointAccountId, mutations, { id: req.user!.id, name: req.user!.name });
+
+      res.json({
+        success: true,
+        data: {
+          results,
+          applied: results.filter(r => r.result === 'APPLIED').length,
+          conflicts: results.filter(r => r.result === 'CONFLICT').length
+        }
+      });
+    } catch (error) {
+      console.error('Error applying offline mutations:', error);
+      res.status(500).json({ success: false, error: 'Failed to apply offline mutations' });
+    }
+  });
+
+  return router;
+}
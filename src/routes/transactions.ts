@@ -1,11 +1,47 @@
 import { Router } from 'express';
 import { getDb } from '../config/database.js';
 import { createAuthMiddleware } from '../middleware/auth.js';
+import { handleIdempotencyKey } from '../middleware/idempotency.js';
 import { requireJointAccountMember } from '../middleware/jointAccount.js';
-import { Transaction, TransactionType, Category } from '../types/index.js';
+import {
+  AuditAction,
+  Transaction,
+  JointAccount,
+  ImportMappingProfile,
+  TrashItem
+} from '../types/index.js';
 import { notifyJointAccountMembers } from '../services/pushService.js';
 import { emitToJointAccount, SocketEvents } from '../services/socketService.js';
+import { checkBudgetAlerts } from '../services/budgetService.js';
+import { hasExchangeRates } from '../services/exchangeRateService.js';
+import {
+  createTransaction,
+  deleteTransaction,
+  trashTransaction,
+  updateTransaction
+} from '../services/transactionService.js';
+import { recordAudit } from '../services/auditService.js';
+import {
+  normalizeMapping,
+  parseImportRequest,
+  summarizeImport,
+  commitImportRows
+} from '../services/importService.js';
+import {
+  buildTransactionFilter,
+  exportFileSlug,
+  streamTransactionExport,
+  TRANSACTION_EXPORT_FORMATS,
+  TransactionExportFormat
+} from '../services/exportService.js';
+import {
+  buildJournalExport,
+  JOURNAL_FLAVORS,
+  JOURNAL_FILE_EXTENSIONS,
+  JournalFlavor
+} from '../services/journalExportService.js';
 import { Auth } from '../config/auth.js';
+import { INVALID_PRECONDITION_ERROR, parsePrecondition, sendOutcome, setReadETag } from '../utils/mutations.js';
 
 export function createTransactionRoutes(auth: Auth): Router {
   const router = Router();
@@ -16,18 +52,9 @@ export function createTransactionRoutes(auth: Auth): Router {
     try {
       const db = getDb();
       const { jointAccountId } = req.params;
-      const { limit = 100, skip = 0, startDate, endDate, type, category } = req.query;
-
-      const filter: any = { jointAccountId };
-      
-      if (startDate || endDate) {
-        filter.date = {};
-        if (startDate) filter.date.$gte = startDate;
-        if (endDate) filter.date.$lte = endDate;
-      }
-      
-      if (type) filter.type = type;
-      if (category) filter.category = category;
+      const { limit = 100, skip = 0 } = req.query;
+
+      const filter = buildTransactionFilter(jointAccountId, req.query);
 
       const transactions = await db.collection<Transaction>('transactions')
         .find(filter)
@@ -50,83 +77,91 @@ export function createTransactionRoutes(auth: Auth): Router {
     }
   });
 
-  // Create a new transaction
-  router.post('/', authMiddleware, async (req, res) => {
+  // Export all matching transactions (same filters as the list route) as CSV, XLSX or NDJSON
+  router.get('/joint-account/:jointAccountId/export', authMiddleware, requireJointAccountMember, async (req, res) => {
     try {
       const db = getDb();
-      const userId = req.user!.id;
-      const userName = req.user!.name;
-      const { 
-        jointAccountId, 
-        amount, 
-        currency, 
-        type, 
-        category, 
-        date, 
-        note 
-      } = req.body;
-
-      if (!jointAccountId || !amount || !type || !category) {
+      const { jointAccountId } = req.params;
+      const format = String(req.query.format || 'csv').toLowerCase() as TransactionExportFormat;
+      const convert = req.query.convert === 'true';
+
+      if (!TRANSACTION_EXPORT_FORMATS.includes(format)) {
         return res.status(400).json({ 
           success: false, 
-          error: 'Missing required fields: jointAccountId, amount, type, category' 
+          error: `Invalid format. Use one of: ${TRANSACTION_EXPORT_FORMATS.join(', ')}` 
         });
       }
 
-      // Verify membership
-      const membership = await db.collection('jointAccountMembers')
-        .findOne({ jointAccountId, userId });
+      const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
 
-      if (!membership) {
-        return res.status(403).json({ 
+      if (!account) {
+        return res.status(404).json({ success: false, error: 'Joint account not found' });
+      }
+
+      if (convert && !(await hasExchangeRates())) {
+        return res.status(400).json({ 
           success: false, 
-          error: 'You are not a member of this joint account' 
+          error: 'No exchange rates are available yet, so amounts cannot be converted' 
         });
       }
 
-      const now = new Date();
-      const transaction: Transaction = {
-        id: crypto.randomUUID(),
-        jointAccountId,
-        amount: Number(amount),
-        currency: currency || 'USD',
-        type,
-        category,
-        date: date || now.toISOString().split('T')[0],
-        note,
-        addedByUserId: userId,
-        addedByUserName: userName,
-        createdAt: now,
-        updatedAt: now
-      };
+      const slug = exportFileSlug(account.name);
+      const today = new Date().toISOString().split('T')[0];
+
+      await streamTransactionExport(res, buildTransactionFilter(jointAccountId, req.query), {
+        format,
+        convertTo: convert ? account.primaryCurrency : undefined,
+        fileName: `transactions-${slug}-${today}`
+      });
+    } catch (error) {
+      console.error('Error exporting transactions:', error);
+      // Once streaming has started the status line is gone - just cut the response
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ success: false, error: 'Failed to export transactions' });
+    }
+  });
+
+  // Export transactions, categories and subscriptions as a Ledger, hledger or Beancount journal
+  router.get('/joint-account/:jointAccountId/export/journal', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+      const flavor = String(req.query.flavor || 'beancount').toLowerCase() as JournalFlavor;
+
+      if (!JOURNAL_FLAVORS.includes(flavor)) {
+        return res.status(400).json({ 
+          success: false, 
+          error: `Invalid flavor. Use one of: ${JOURNAL_FLAVORS.join(', ')}` 
+        });
+      }
+
+      const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
+
+      if (!account) {
+        return res.status(404).json({ success: false, error: 'Joint account not found' });
+      }
+
+      const journal = await buildJournalExport(account, buildTransactionFilter(jointAccountId, req.query), flavor);
+
+      const slug = exportFileSlug(account.name);
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${slug}.${JOURNAL_FILE_EXTENSIONS[flavor]}"`);
+      res.send(journal);
+    } catch (error) {
+      console.error('Error exporting journal:', error);
+      res.status(500).json({ success: false, error: 'Failed to export journal' });
+    }
+  });
 
-      await db.collection<Transaction>('transactions').insertOne(transaction);
-
-      // Emit real-time update to joint account members
-      emitToJointAccount(jointAccountId, SocketEvents.TRANSACTION_ADDED, transaction);
-
-      // Send push notifications to other members
-      const currencySymbol = currency || 'USD';
-      const formattedAmount = Number(amount).toLocaleString();
-      const notificationTitle = type === TransactionType.INCOME 
-        ? `💰 ${userName} added income` 
-        : `💸 ${userName} added an expense`;
-      const notificationBody = type === TransactionType.INCOME
-        ? `+${currencySymbol} ${formattedAmount} from ${category}`
-        : `${currencySymbol} ${formattedAmount} on ${category}`;
-      
-      // Fire and forget - don't wait for notifications
-      // Use absolute URL for icon so it works on mobile
-      const iconUrl = process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/icon-192.png` : 'https://money-flow-six.vercel.app/icon-192.png';
-      notifyJointAccountMembers(jointAccountId, userId, {
-        title: notificationTitle,
-        body: notificationBody,
-        icon: iconUrl,
-        tag: `transaction-${transaction.id}`,
-        data: { type: 'transaction', transactionId: transaction.id, jointAccountId, url: '/transactions' }
-      }).catch(err => console.error('Notification error:', err));
-
-      res.status(201).json({ success: true, data: transaction });
+  // Create a new transaction. A client-generated id makes retries safe: sending the same id
+  // again returns the transaction that was already created.
+  router.post('/', authMiddleware, handleIdempotencyKey, async (req, res) => {
+    try {
+      const outcome = await createTransaction(req.body, { id: req.user!.id, name: req.user!.name });
+      sendOutcome(res, outcome);
     } catch (error) {
       console.error('Error creating transaction:', error);
       res.status(500).json({ success: false, error: 'Failed to create transaction' });
@@ -158,6 +193,7 @@ export function createTransactionRoutes(auth: Auth): Router {
         });
       }
 
+      setReadETag(res, transaction);
       res.json({ success: true, data: transaction });
     } catch (error) {
       console.error('Error fetching transaction:', error);
@@ -165,24 +201,64 @@ export function createTransactionRoutes(auth: Auth): Router {
     }
   });
 
-  // Update a transaction
-  router.put('/:transactionId', authMiddleware, async (req, res) => {
+  // Update a transaction. Send If-Match (or baseVersion) to reject the edit (409) if someone changed it meanwhile.
+  router.put('/:transactionId', authMiddleware, handleIdempotencyKey, async (req, res) => {
+    try {
+      const baseVersion = parsePrecondition(req);
+      if (baseVersion === null) {
+        return res.status(400).json({ success: false, error: INVALID_PRECONDITION_ERROR });
+      }
+
+      const outcome = await updateTransaction(
+        req.params.transactionId,
+        req.body,
+        { id: req.user!.id, name: req.user!.name },
+        baseVersion
+      );
+      sendOutcome(res, outcome);
+    } catch (error) {
+      console.error('Error updating transaction:', error);
+      res.status(500).json({ success: false, error: 'Failed to update transaction' });
+    }
+  });
+
+  // Delete a transaction
+  router.delete('/:transactionId', authMiddleware, handleIdempotencyKey, async (req, res) => {
+    try {
+      const baseVersion = parsePrecondition(req);
+      if (baseVersion === null) {
+        return res.status(400).json({ success: false, error: INVALID_PRECONDITION_ERROR });
+      }
+
+      const outcome = await deleteTransaction(
+        req.params.transactionId,
+        { id: req.user!.id, name: req.user!.name },
+        baseVersion
+      );
+      sendOutcome(res, outcome, 'Transaction deleted');
+    } catch (error) {
+      console.error('Error deleting transaction:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete transaction' });
+    }
+  });
+
+  // Bulk delete transactions
+  router.post('/bulk-delete', authMiddleware, async (req, res) => {
     try {
       const db = getDb();
-      const { transactionId } = req.params;
       const userId = req.user!.id;
-      const { amount, currency, type, category, date, note } = req.body;
-
-      const transaction = await db.collection<Transaction>('transactions')
-        .findOne({ id: transactionId });
+      const { transactionIds, jointAccountId } = req.body;
 
-      if (!transaction) {
-        return res.status(404).json({ success: false, error: 'Transaction not found' });
+      if (!transactionIds || !Array.isArray(transactionIds) || !jointAccountId) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'transactionIds array and jointAccountId are required' 
+        });
       }
 
       // Verify membership
       const membership = await db.collection('jointAccountMembers')
-        .findOne({ jointAccountId: transaction.jointAccountId, userId });
+        .findOne({ jointAccountId, userId });
 
       if (!membership) {
         return res.status(403).json({ 
@@ -191,51 +267,119 @@ export function createTransactionRoutes(auth: Auth): Router {
         });
       }
 
-      const updateData: Partial<Transaction> = { updatedAt: new Date() };
-      if (amount !== undefined) updateData.amount = Number(amount);
-      if (currency) updateData.currency = currency;
-      if (type) updateData.type = type;
-      if (category) updateData.category = category;
-      if (date) updateData.date = date;
-      if (note !== undefined) updateData.note = note;
-
-      await db.collection<Transaction>('transactions').updateOne(
-        { id: transactionId },
-        { $set: updateData }
-      );
+      // Deleted transactions go to the trash, so an accidental bulk delete can be undone.
+      // One at a time, so each trash item holds the document its own delete removed.
+      const deleted: Transaction[] = [];
+      const trashItems: TrashItem[] = [];
+      for (const transactionId of new Set(transactionIds.map(String))) {
+        const trashed = await trashTransaction({ id: transactionId, jointAccountId }, { id: userId, name: req.user!.name });
+        if (!trashed) continue;
+        deleted.push(trashed.transaction);
+        trashItems.push(trashed.trashItem);
+      }
 
-      const updated = await db.collection<Transaction>('transactions')
-        .findOne({ id: transactionId });
+      await recordAudit(...deleted.map(transaction => ({
+        jointAccountId,
+        entity: 'transaction' as const,
+        entityId: transaction.id,
+        action: AuditAction.DELETE,
+        actor: { id: userId, name: req.user!.name },
+        before: transaction,
+        note: 'Bulk delete'
+      })));
 
-      // Emit real-time update to joint account members
-      if (updated) {
-        emitToJointAccount(transaction.jointAccountId, SocketEvents.TRANSACTION_UPDATED, updated);
+      // Emit socket events for each deleted transaction so other users see the deletion in real-time
+      for (const item of trashItems) {
+        emitToJointAccount(jointAccountId, SocketEvents.TRANSACTION_DELETED, {
+          transactionId: item.recordId,
+          jointAccountId,
+          deletedBy: userId,
+          trashId: item.id
+        });
       }
 
-      res.json({ success: true, data: updated });
+      res.json({ 
+        success: true, 
+        message: `Deleted ${deleted.length} transactions`,
+        data: { trashIds: trashItems.map(item => item.id) }
+      });
     } catch (error) {
-      console.error('Error updating transaction:', error);
-      res.status(500).json({ success: false, error: 'Failed to update transaction' });
+      console.error('Error bulk deleting transactions:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete transactions' });
     }
   });
 
-  // Delete a transaction
-  router.delete('/:transactionId', authMiddleware, async (req, res) => {
+  // List saved CSV import mapping profiles for a joint account
+  router.get('/import/profiles/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+
+      const profiles = await db.collection<ImportMappingProfile>('importProfiles')
+        .find({ jointAccountId })
+        .sort({ name: 1 })
+        .toArray();
+
+      res.json({ success: true, data: profiles });
+    } catch (error) {
+      console.error('Error fetching import profiles:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch import profiles' });
+    }
+  });
+
+  // Save a CSV import mapping profile (e.g. one per bank)
+  router.post('/import/profiles', authMiddleware, requireJointAccountMember, async (req, res) => {
     try {
       const db = getDb();
-      const { transactionId } = req.params;
       const userId = req.user!.id;
+      const { jointAccountId, name, mapping: inputMapping } = req.body;
 
-      const transaction = await db.collection<Transaction>('transactions')
-        .findOne({ id: transactionId });
+      if (!name) {
+        return res.status(400).json({ success: false, error: 'Profile name is required' });
+      }
 
-      if (!transaction) {
-        return res.status(404).json({ success: false, error: 'Transaction not found' });
+      const { mapping, error } = normalizeMapping(inputMapping);
+      if (!mapping) {
+        return res.status(400).json({ success: false, error });
+      }
+
+      const now = new Date();
+      const profile: ImportMappingProfile = {
+        ...mapping,
+        id: crypto.randomUUID(),
+        jointAccountId,
+        name,
+        createdByUserId: userId,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await db.collection<ImportMappingProfile>('importProfiles').insertOne(profile);
+
+      res.status(201).json({ success: true, data: profile });
+    } catch (error) {
+      console.error('Error creating import profile:', error);
+      res.status(500).json({ success: false, error: 'Failed to create import profile' });
+    }
+  });
+
+  // Delete a saved import mapping profile
+  router.delete('/import/profiles/:profileId', authMiddleware, async (req, res) => {
+    try {
+      const db = getDb();
+      const { profileId } = req.params;
+      const userId = req.user!.id;
+
+      const profile = await db.collection<ImportMappingProfile>('importProfiles')
+        .findOne({ id: profileId });
+
+      if (!profile) {
+        return res.status(404).json({ success: false, error: 'Import profile not found' });
       }
 
       // Verify membership
       const membership = await db.collection('jointAccountMembers')
-        .findOne({ jointAccountId: transaction.jointAccountId, userId });
+        .findOne({ jointAccountId: profile.jointAccountId, userId });
 
       if (!membership) {
         return res.status(403).json({ 
@@ -244,67 +388,108 @@ export function createTransactionRoutes(auth: Auth): Router {
         });
       }
 
-      await db.collection<Transaction>('transactions').deleteOne({ id: transactionId });
+      await db.collection<ImportMappingProfile>('importProfiles').deleteOne({ id: profileId });
 
-      // Emit real-time update to joint account members
-      emitToJointAccount(transaction.jointAccountId, SocketEvents.TRANSACTION_DELETED, {
-        transactionId,
-        jointAccountId: transaction.jointAccountId
-      });
+      res.json({ success: true, message: 'Import profile deleted' });
+    } catch (error) {
+      console.error('Error deleting import profile:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete import profile' });
+    }
+  });
+
+  // Dry-run a statement import (CSV, OFX/QFX, QIF, camt.053 or MT940): parse and return what would be created
+  router.post('/import/preview', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const { jointAccountId } = req.body;
 
-      res.json({ success: true, message: 'Transaction deleted' });
+      const { format, result, error } = await parseImportRequest(jointAccountId, req.body);
+      if (!result) {
+        return res.status(400).json({ success: false, error });
+      }
+
+      const newRows = result.rows.filter(row => !row.duplicate);
+
+      res.json({
+        success: true,
+        data: {
+          format,
+          rows: result.rows,
+          errors: result.errors,
+          duplicates: result.rows.length - newRows.length,
+          summary: summarizeImport(newRows)
+        }
+      });
     } catch (error) {
-      console.error('Error deleting transaction:', error);
-      res.status(500).json({ success: false, error: 'Failed to delete transaction' });
+      console.error('Error previewing import:', error);
+      res.status(500).json({ success: false, error: 'Failed to preview import' });
     }
   });
 
-  // Bulk delete transactions
-  router.post('/bulk-delete', authMiddleware, async (req, res) => {
+  // Commit a statement import (any supported format) into the joint account
+  router.post('/import', authMiddleware, requireJointAccountMember, async (req, res) => {
     try {
       const db = getDb();
       const userId = req.user!.id;
-      const { transactionIds, jointAccountId } = req.body;
+      const userName = req.user!.name;
+      const { jointAccountId, skipInvalid = false } = req.body;
 
-      if (!transactionIds || !Array.isArray(transactionIds) || !jointAccountId) {
-        return res.status(400).json({ 
-          success: false, 
-          error: 'transactionIds array and jointAccountId are required' 
-        });
+      const { format, result, mapping, error } = await parseImportRequest(jointAccountId, req.body);
+      if (!result || !format) {
+        return res.status(400).json({ success: false, error });
       }
 
-      // Verify membership
-      const membership = await db.collection('jointAccountMembers')
-        .findOne({ jointAccountId, userId });
-
-      if (!membership) {
-        return res.status(403).json({ 
-          success: false, 
-          error: 'You are not a member of this joint account' 
+      // Refuse partial imports unless the client explicitly accepted the preview errors
+      if (result.errors.length > 0 && !skipInvalid) {
+        return res.status(422).json({
+          success: false,
+          error: 'Some entries could not be parsed. Fix the mapping or pass skipInvalid to import the valid entries.',
+          data: { errors: result.errors }
         });
       }
 
-      const result = await db.collection<Transaction>('transactions').deleteMany({
-        id: { $in: transactionIds },
-        jointAccountId
-      });
+      const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
+      const { transactions, duplicates } = await commitImportRows(
+        jointAccountId,
+        { id: userId, name: userName },
+        result.rows,
+        mapping?.currency || account?.primaryCurrency || 'USD',
+        format
+      );
 
-      // Emit socket events for each deleted transaction so other users see the deletion in real-time
-      for (const transactionId of transactionIds) {
-        emitToJointAccount(jointAccountId, SocketEvents.TRANSACTION_DELETED, {
-          transactionId,
-          jointAccountId,
-          deletedBy: userId
+      if (transactions.length > 0) {
+        // One batched event for the whole import instead of one per row
+        emitToJointAccount(jointAccountId, SocketEvents.TRANSACTION_ADDED, transactions);
+
+        const iconUrl = process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/icon-192.png` : 'https://money-flow-six.vercel.app/icon-192.png';
+        notifyJointAccountMembers(jointAccountId, userId, {
+          title: `📥 ${userName} imported transactions`,
+          body: `${transactions.length} transactions were added from a bank statement`,
+          icon: iconUrl,
+          tag: `transaction-import-${jointAccountId}`,
+          data: { type: 'transaction-import', jointAccountId, url: '/transactions' }
+        }).catch(err => console.error('Notification error:', err));
+
+        // Check each category/month budget once rather than once per imported row
+        const budgetChecks = new Map<string, Transaction>();
+        transactions.forEach(t => budgetChecks.set(`${t.category}:${t.date.slice(0, 7)}`, t));
+        budgetChecks.forEach(t => {
+          checkBudgetAlerts(t, userId).catch(err => console.error('Budget alert error:', err));
         });
       }
 
-      res.json({ 
-        success: true, 
-        message: `Deleted ${result.deletedCount} transactions` 
+      res.status(201).json({
+        success: true,
+        data: {
+          format,
+          imported: transactions.length,
+          duplicates,
+          skipped: result.errors,
+          summary: summarizeImport(transactions)
+        }
       });
     } catch (error) {
-      console.error('Error bulk deleting transactions:', error);
-      res.status(500).json({ success: false, error: 'Failed to delete transactions' });
+      console.error('Error importing transactions:', error);
+      res.status(500).json({ success: false, error: 'Failed to import transactions' });
     }
   });
 
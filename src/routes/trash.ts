@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { getDb } from '../config/database.js';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import { requireJointAccountMember } from '../middleware/jointAccount.js';
+import { TrashItem } from '../types/index.js';
+import { Auth } from '../config/auth.js';
+import { purgeDateOf, restoreFromTrash } from '../services/trashService.js';
+import { sendOutcome } from '../utils/mutations.js';
+
+const TRASH_ENTITIES: TrashItem['entity'][] = ['transaction', 'goal', 'subscription'];
+
+export function createTrashRoutes(auth: Auth): Router {
+  const router = Router();
+  const authMiddleware = createAuthMiddleware(auth);
+
+  // Get a joint account's deleted transactions, goals and subscriptions, newest first (`entity` filters)
+  router.get('/joint-account/:jointAccountId', authMiddleware, requireJointAccountMember, async (req, res) => {
+    try {
+      const db = getDb();
+      const { jointAccountId } = req.params;
+      const { entity } = req.query;
+
+      if (entity !== undefined && !TRASH_ENTITIES.includes(entity as TrashItem['entity'])) {
+        return res.status(400).json({ success: false, error: `entity must be one of: ${TRASH_ENTITIES.join(', ')}` });
+      }
+
+      const items = await db.collection<TrashItem>('trash')
+        .find(
+          { jointAccountId, ...(entity && { entity: entity as TrashItem['entity'] }) },
+          { projection: { _id: 0, related: 0 } }
+        )
+        .sort({ deletedAt: -1 })
+        .toArray();
+
+      res.json({
+        success: true,
+        data: items.map(item => ({ ...item, purgeAt: purgeDateOf(item) }))
+      });
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch trash' });
+    }
+  });
+
+  // Restore a deleted item. Members get the same socket event as when it was first created.
+  router.post('/:trashId/restore', authMiddleware, async (req, res) => {
+    try {
+      const outcome = await restoreFromTrash(req.params.trashId, { id: req.user!.id, name: req.user!.name });
+      if (!outcome.ok) return sendOutcome(res, outcome);
+
+      res.json({ success: true, data: outcome.data.record });
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      res.status(500).json({ success: false, error: 'Failed to restore item' });
+    }
+  });
+
+  return router;
+}
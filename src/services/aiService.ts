@@ -1,6 +1,20 @@
 import { getDb } from '../config/database.js';
-import { Transaction, Goal, Subscription, TransactionType, Category } from '../types/index.js';
+import {
+  Transaction,
+  Goal,
+  Subscription,
+  TransactionType,
+  Category,
+  JointAccount,
+  BudgetingMode,
+  GoalStatus
+} from '../types/index.js';
 import { callOpenRouter, aiFinancialChat } from './openRouterService.js';
+import { createCurrencyConverter, CurrencyConverter, ExchangeRateUsage } from './exchangeRateService.js';
+import { computeEnvelopeSummary, EnvelopeBalance } from './envelopeService.js';
+import { computeGoalProjection } from './goalService.js';
+import { findUserById } from '../utils/userLookup.js';
+import { describeCycle, isSubscriptionActive, monthlyEquivalent } from '../utils/billing.js';
 
 // Helper to get amount category type for 50/30/20 analysis
 function getCategoryType(category: string): 'NEED' | 'WANT' | 'SAVINGS' | 'OTHER' {
@@ -22,6 +36,7 @@ function getCategoryType(category: string): 'NEED' | 'WANT' | 'SAVINGS' | 'OTHER
 }
 
 export interface FinancialAnalysis {
+  currency: string; // All amounts below are in this currency
   totalIncome: number;
   totalExpense: number;
   balance: number;
@@ -29,6 +44,57 @@ export interface FinancialAnalysis {
   topCategory: { name: string; amount: number; percent: number };
   categoryTotals: Record<string, number>;
   userContributions: Array<{ userId: string; userName: string; totalAdded: number; count: number }>;
+  ratesUsed: ExchangeRateUsage[];
+  // Transactions left out of the totals because no exchange rate was available
+  unconverted: Array<{ currency: string; count: number; amount: number }>;
+  // Only for joint accounts in envelope budgeting mode (amounts in the account's primary currency)
+  envelopes?: {
+    currency: string;
+    unassignedIncome: number;
+    negativeEnvelopes: EnvelopeBalance[];
+  };
+}
+
+// Sum amounts converted into the converter's currency, skipping ones without a rate
+async function sumConverted(
+  items: Array<{ amount: number; currency: string; date: string }>,
+  converter: CurrencyConverter
+): Promise<number> {
+  let total = 0;
+  for (const item of items) {
+    total += (await converter.convert(item.amount, item.currency, item.date)) ?? 0;
+  }
+  return total;
+}
+
+// Monthly cost of a subscription in the converter's currency (today's rate)
+async function monthlySubscriptionAmount(sub: Subscription, converter: CurrencyConverter): Promise<number> {
+  const today = new Date().toISOString().split('T')[0];
+  const amount = (await converter.convert(sub.amount, sub.currency, today)) ?? 0;
+  return monthlyEquivalent(amount, sub);
+}
+
+// A goal's saved and target amounts in the converter's currency at today's rate,
+// or in the goal's own currency when no rate is known
+async function convertedGoalAmounts(
+  goal: Goal,
+  converter: CurrencyConverter
+): Promise<{ current: number; target: number; currency: string }> {
+  const today = new Date().toISOString().split('T')[0];
+  const [current, target] = await Promise.all([
+    converter.convert(goal.currentAmount, goal.currency, today),
+    converter.convert(goal.targetAmount, goal.currency, today)
+  ]);
+  return current === null || target === null
+    ? { current: goal.currentAmount, target: goal.targetAmount, currency: goal.currency }
+    : { current, target, currency: converter.targetCurrency };
+}
+
+// One line per subscription for AI prompts, flagging ones that aren't being paid
+function describeSubscription(s: Subscription): string {
+  const status = isSubscriptionActive(s) ? '' : ` (${s.status!.toLowerCase()})`;
+  const trial = s.trialEndsAt && s.trialEndsAt > new Date().toISOString().split('T')[0] ? ` (free trial until ${s.trialEndsAt})` : '';
+  return `- ${s.name}: ${s.amount} ${s.currency}/${describeCycle(s)}${status}${trial}`;
 }
 
 export interface AIInsights {
@@ -36,13 +102,14 @@ export interface AIInsights {
   budgetHealth: string;
   runwayAnalysis: string;
   goalAnalysis?: string;
-  goalStatus?: 'ON_TRACK' | 'AT_RISK' | 'UNREALISTIC';
+  goalStatus?: GoalStatus;
 }
 
 // Analyze financial data for a joint account
 export async function analyzeJointAccountFinances(
   jointAccountId: string,
-  primaryCurrency: string
+  primaryCurrency: string,
+  converter: CurrencyConverter = createCurrencyConverter(primaryCurrency)
 ): Promise<FinancialAnalysis> {
   const db = getDb();
   
@@ -55,10 +122,19 @@ export async function analyzeJointAccountFinances(
   const breakdown = { NEED: 0, WANT: 0, SAVINGS: 0, OTHER: 0 };
   const categoryTotals: Record<string, number> = {};
   const userContributionsMap: Record<string, { userName: string; totalAdded: number; count: number }> = {};
+  const unconvertedMap: Record<string, { count: number; amount: number }> = {};
   
-  transactions.forEach(t => {
-    // Note: In a real app, you'd convert currencies here
-    const amount = t.amount;
+  for (const t of transactions) {
+    // Convert into the requester's currency using the rate on the transaction date
+    const currency = t.currency || primaryCurrency;
+    const amount = await converter.convert(t.amount, currency, t.date);
+    
+    if (amount === null) {
+      unconvertedMap[currency] = unconvertedMap[currency] || { count: 0, amount: 0 };
+      unconvertedMap[currency].count += 1;
+      unconvertedMap[currency].amount += t.amount;
+      continue;
+    }
     
     if (t.type === TransactionType.INCOME) {
       income += amount;
@@ -79,7 +155,7 @@ export async function analyzeJointAccountFinances(
     }
     userContributionsMap[t.addedByUserId].totalAdded += amount;
     userContributionsMap[t.addedByUserId].count += 1;
-  });
+  }
   
   const sortedCats = Object.entries(categoryTotals).sort((a, b) => b[1] - a[1]);
   const topCat = sortedCats[0] || ['None', 0];
@@ -91,7 +167,19 @@ export async function analyzeJointAccountFinances(
     count: data.count
   }));
   
+  const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
+  let envelopes: FinancialAnalysis['envelopes'];
+  if (account?.budgetingMode === BudgetingMode.ENVELOPE) {
+    const summary = await computeEnvelopeSummary(account);
+    envelopes = {
+      currency: summary.currency,
+      unassignedIncome: summary.unassignedIncome,
+      negativeEnvelopes: summary.negativeEnvelopes
+    };
+  }
+  
   return {
+    currency: primaryCurrency,
     totalIncome: income,
     totalExpense: expense,
     balance: income - expense,
@@ -102,7 +190,10 @@ export async function analyzeJointAccountFinances(
       percent: expense > 0 ? (topCat[1] / expense) * 100 : 0
     },
     categoryTotals,
-    userContributions
+    userContributions,
+    ratesUsed: converter.ratesUsed(),
+    unconverted: Object.entries(unconvertedMap).map(([currency, data]) => ({ currency, ...data })),
+    envelopes
   };
 }
 
@@ -124,8 +215,9 @@ export async function generateAIInsights(
   
   const db = getDb();
   
-  // Gather real data
-  const analysis = await analyzeJointAccountFinances(jointAccountId, primaryCurrency);
+  // Gather real data - everything is converted into the requester's currency
+  const converter = createCurrencyConverter(primaryCurrency);
+  const analysis = await analyzeJointAccountFinances(jointAccountId, primaryCurrency, converter);
   
   const goals = await db.collection<Goal>('goals')
     .find({ jointAccountId })
@@ -150,12 +242,14 @@ export async function generateAIInsights(
     t => t.type === TransactionType.EXPENSE && new Date(t.date) >= thirtyDaysAgo
   );
   
-  const totalRecentExpense = recentExpenses.reduce((sum, t) => sum + t.amount, 0);
+  const totalRecentExpense = await sumConverted(recentExpenses, converter);
   const dailyBurn = totalRecentExpense / 30;
   
-  const monthlySubscriptionCost = subscriptions.reduce((acc, sub) => {
-    return acc + (sub.cycle === 'Yearly' ? sub.amount / 12 : sub.amount);
-  }, 0);
+  // Paused and cancelled subscriptions aren't being paid for
+  let monthlySubscriptionCost = 0;
+  for (const sub of subscriptions.filter(isSubscriptionActive)) {
+    monthlySubscriptionCost += await monthlySubscriptionAmount(sub, converter);
+  }
   
   const runwayDays = dailyBurn > 0 ? Math.floor(analysis.balance / dailyBurn) : 999;
   
@@ -177,8 +271,9 @@ export async function generateAIInsights(
         .map(u => `- ${u.userName}: ${u.count} transactions, total ${u.totalAdded} ${primaryCurrency}`)
         .join('\n');
       
-      const goalText = activeGoal 
-        ? `${activeGoal.name} - Target: ${activeGoal.targetAmount}, Current: ${activeGoal.currentAmount}, Deadline: ${activeGoal.deadline}`
+      const goalAmounts = activeGoal ? await convertedGoalAmounts(activeGoal, converter) : null;
+      const goalText = activeGoal && goalAmounts
+        ? `${activeGoal.name} - Target: ${goalAmounts.target} ${goalAmounts.currency}, Current: ${goalAmounts.current} ${goalAmounts.currency}, Deadline: ${activeGoal.deadline}`
         : 'No active goals.';
 
       return await aiFinancialChat(userQuestion, {
@@ -192,31 +287,28 @@ export async function generateAIInsights(
           .join('\n'),
         recentTransactions: transactionHistory,
         goals: goalText,
-        subscriptions: subscriptions.map(s => `- ${s.name}: ${s.amount} ${s.currency}/${s.cycle}`).join('\n'),
+        subscriptions: subscriptions.map(describeSubscription).join('\n'),
         userContributions: userContributionsText
       });
     }
     
     // Generate structured insights using OpenRouter
+    // The goal's status is computed, not left to the model
     let goalSection = '';
+    let goalStatus: GoalStatus | undefined;
     if (activeGoal) {
-      const remaining = activeGoal.targetAmount - activeGoal.currentAmount;
-      const deadline = new Date(activeGoal.deadline!);
-      const daysLeft = Math.ceil((deadline.getTime() - Date.now()) / (1000 * 3600 * 24));
-      const dailyNeeded = daysLeft > 0 ? remaining / daysLeft : remaining;
-      
-      const recentIncome = recentTransactions
-        .filter(t => t.type === TransactionType.INCOME && new Date(t.date) >= thirtyDaysAgo)
-        .reduce((sum, t) => sum + t.amount, 0);
-      const dailySurplus = (recentIncome - totalRecentExpense) / 30;
-      
+      const projection = await computeGoalProjection(activeGoal);
+      goalStatus = projection.status;
+
       goalSection = `
 ACTIVE GOAL:
 - Name: "${activeGoal.name}"
-- Days Left: ${daysLeft}
-- Amount Needed: ${remaining} ${primaryCurrency}
-- Daily Savings Required: ${dailyNeeded.toFixed(2)} ${primaryCurrency}
-- Current Daily Surplus: ${dailySurplus.toFixed(2)} ${primaryCurrency}`;
+- Days Left: ${projection.daysLeft}
+- Amount Needed: ${projection.remainingAmount} ${activeGoal.currency}
+- Savings Required: ${projection.requiredRate?.weekly} ${activeGoal.currency}/week
+- Current Savings Rate: ${projection.savingsRate.weekly} ${activeGoal.currency}/week
+- Estimated Completion: ${projection.estimatedCompletionDate || 'never at the current rate'}
+- Status: ${projection.status}`;
     }
     
     const systemPrompt = `You are a warm, friendly financial advisor. Analyze the data and return insights.
@@ -226,8 +318,7 @@ Return ONLY valid JSON:
   "generalTip": "Warm observation starting with 'I see...', 'I noticed...', or 'It looks like...' (max 25 words)",
   "budgetHealth": "Comment on spending mix (max 20 words)",
   "runwayAnalysis": "Comment on survival days (max 20 words)",
-  "goalAnalysis": "Advice on reaching goal if exists (max 25 words)",
-  "goalStatus": "ON_TRACK" or "AT_RISK" or "UNREALISTIC" (only if goal exists)
+  "goalAnalysis": "Advice on reaching goal if exists, consistent with its Status (max 25 words)"
 }`;
 
     const userPrompt = `Financial Data:
@@ -237,7 +328,7 @@ Return ONLY valid JSON:
 - Top Expense: ${analysis.topCategory.name} (${analysis.topCategory.amount} ${primaryCurrency})
 - 50/30/20: Needs ${Math.round((analysis.breakdown.NEED / (analysis.totalExpense || 1)) * 100)}%, Wants ${Math.round((analysis.breakdown.WANT / (analysis.totalExpense || 1)) * 100)}%, Savings ${Math.round((analysis.breakdown.SAVINGS / (analysis.totalExpense || 1)) * 100)}%
 - Runway: ${runwayDays > 365 ? '1+ Year' : runwayDays + ' Days'}
-- Monthly Subscriptions: ${monthlySubscriptionCost} ${primaryCurrency}
+- Monthly Subscriptions: ${monthlySubscriptionCost.toFixed(2)} ${primaryCurrency}
 ${goalSection}`;
 
     const result = await callOpenRouter([
@@ -247,13 +338,15 @@ ${goalSection}`;
     
     const jsonMatch = result.match(/\{[\s\S]*\}/);
     if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]) as AIInsights;
+      const insights = JSON.parse(jsonMatch[0]) as AIInsights;
+      return { ...insights, ...(goalStatus && { goalStatus }) };
     }
     
     return {
       generalTip: "I see you're tracking your finances - that's a great first step!",
       budgetHealth: "Keep monitoring your spending patterns.",
-      runwayAnalysis: "Your financial runway looks stable."
+      runwayAnalysis: "Your financial runway looks stable.",
+      ...(goalStatus && { goalStatus })
     };
   } catch (error: any) {
     console.error('AI generation error:', error.message);
@@ -332,37 +425,43 @@ export async function aiChat(
   allTransactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   allTransactions = allTransactions.slice(0, 100); // Limit to recent 100
   
-  // Calculate summary
+  // Calculate summary in the user's currency (amounts without a known rate are left out)
+  const user = await findUserById(userId, db);
+  const converter = createCurrencyConverter(user?.primaryCurrency || 'USD');
   let totalIncome = 0;
   let totalExpense = 0;
   const categoryTotals: Record<string, number> = {};
   
-  allTransactions.forEach(t => {
+  for (const t of allTransactions) {
+    const amount = await converter.convert(t.amount, t.currency, t.date);
+    if (amount === null) continue;
+    
     if (t.type === TransactionType.INCOME) {
-      totalIncome += t.amount;
+      totalIncome += amount;
     } else {
-      totalExpense += t.amount;
-      categoryTotals[t.category] = (categoryTotals[t.category] || 0) + t.amount;
+      totalExpense += amount;
+      categoryTotals[t.category] = (categoryTotals[t.category] || 0) + amount;
     }
-  });
+  }
   
   const transactionSummary = allTransactions.slice(0, 20).map(t => {
     return `[${new Date(t.date).toLocaleDateString()}] ${t.type === TransactionType.INCOME ? '+' : '-'}${t.amount} ${t.currency} (${t.category})${t.note ? ` - "${t.note}"` : ''}`;
   }).join('\n');
   
-  const goalsSummary = allGoals.map(g => {
+  const goalLines: string[] = [];
+  for (const g of allGoals) {
     const progress = Math.round((g.currentAmount / g.targetAmount) * 100);
-    return `- ${g.name}: ${progress}% (${g.currentAmount}/${g.targetAmount} ${g.currency})${g.deadline ? ` Due: ${g.deadline}` : ''}`;
-  }).join('\n');
+    const amounts = await convertedGoalAmounts(g, converter);
+    goalLines.push(`- ${g.name}: ${progress}% (${amounts.current}/${amounts.target} ${amounts.currency})${g.deadline ? ` Due: ${g.deadline}` : ''}`);
+  }
+  const goalsSummary = goalLines.join('\n');
   
-  const subsSummary = allSubscriptions.map(s => {
-    return `- ${s.name}: ${s.amount} ${s.currency}/${s.cycle}`;
-  }).join('\n');
+  const subsSummary = allSubscriptions.map(describeSubscription).join('\n');
   
   const categoryBreakdown = Object.entries(categoryTotals)
     .sort((a, b) => b[1] - a[1])
     .slice(0, 5)
-    .map(([cat, amt]) => `- ${cat}: ${amt}`)
+    .map(([cat, amt]) => `- ${cat}: ${amt.toFixed(2)} ${converter.targetCurrency}`)
     .join('\n');
   
   try {
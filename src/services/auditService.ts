@@ -0,0 +1,76 @@
+import { getDb } from '../config/database.js';
+import { AuditAction, AuditEntity, AuditFieldChange, AuditLogEntry } from '../types/index.js';
+
+// Who made an audited change
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+// Scheduled jobs (billing, recurring rules) act as this user
+export const SYSTEM_ACTOR: AuditActor = { id: 'system', name: 'FlowMoney' };
+
+// Bookkeeping fields that change on every write and say nothing about the edit itself
+const IGNORED_FIELDS = new Set(['_id', 'updatedAt', 'version']);
+
+export interface AuditInput {
+  jointAccountId: string;
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  actor: AuditActor;
+  before?: object | null; // Omit for creates
+  after?: object | null; // Omit for deletes
+  note?: string;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Field-by-field difference between two versions of a record. Creates and deletes list every field.
+export function diffRecords(before: object | null | undefined, after: object | null | undefined): AuditFieldChange[] {
+  const from = (before || {}) as Record<string, unknown>;
+  const to = (after || {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  const changes: AuditFieldChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const previous = from[field] ?? null;
+    const next = to[field] ?? null;
+    if (!sameValue(previous, next)) changes.push({ field, before: previous, after: next });
+  }
+  return changes;
+}
+
+function toEntry(input: AuditInput, createdAt: Date): AuditLogEntry {
+  return {
+    id: crypto.randomUUID(),
+    jointAccountId: input.jointAccountId,
+    entity: input.entity,
+    entityId: input.entityId,
+    action: input.action,
+    actorUserId: input.actor.id,
+    actorUserName: input.actor.name,
+    changes: diffRecords(input.before, input.after),
+    ...(input.note && { note: input.note }),
+    createdAt
+  };
+}
+
+// Record audited changes. Updates that changed nothing are skipped. A failure is logged rather
+// than thrown, so a write that already happened is never reported as failed.
+export async function recordAudit(...inputs: AuditInput[]): Promise<void> {
+  const now = new Date();
+  const entries = inputs
+    .map(input => toEntry(input, now))
+    .filter(entry => entry.action !== AuditAction.UPDATE || entry.changes.length > 0);
+  if (entries.length === 0) return;
+
+  try {
+    await getDb().collection<AuditLogEntry>('auditLog').insertMany(entries);
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
@@ -0,0 +1,87 @@
+import { getDb } from '../config/database.js';
+import { AutoSaveRule, AutoSaveRuleType, Goal, GoalContributionType, Transaction, TransactionType } from '../types/index.js';
+import { createCurrencyConverter } from './exchangeRateService.js';
+import { addGoalContribution } from './goalService.js';
+
+// Validate the type-specific part of a rule; returns an error message or null
+export function validateAutoSaveRule(rule: Pick<AutoSaveRule, 'type' | 'percent' | 'roundTo'>): string | null {
+  if (!Object.values(AutoSaveRuleType).includes(rule.type)) {
+    return `type must be one of: ${Object.values(AutoSaveRuleType).join(', ')}`;
+  }
+  if (rule.type === AutoSaveRuleType.PERCENT_OF_INCOME) {
+    if (!Number.isFinite(rule.percent) || rule.percent! <= 0 || rule.percent! > 100) {
+      return 'percent must be a number between 0 and 100';
+    }
+  }
+  if (rule.type === AutoSaveRuleType.ROUND_UP) {
+    if (!Number.isFinite(rule.roundTo) || rule.roundTo! <= 0) {
+      return 'roundTo must be a positive number';
+    }
+  }
+  return null;
+}
+
+// What a rule sets aside from a transaction, in the transaction's currency (0 when it doesn't apply)
+export function autoSaveAmount(rule: AutoSaveRule, transaction: Pick<Transaction, 'type' | 'category' | 'amount'>): number {
+  if (rule.category && rule.category !== transaction.category) return 0;
+
+  switch (rule.type) {
+    case AutoSaveRuleType.PERCENT_OF_INCOME:
+      if (transaction.type !== TransactionType.INCOME) return 0;
+      return Math.round(transaction.amount * rule.percent!) / 100;
+    case AutoSaveRuleType.ROUND_UP: {
+      if (transaction.type !== TransactionType.EXPENSE) return 0;
+      // Work in cents so 12.30 rounded to 10 gives 7.70, not 7.699999
+      const cents = Math.round(transaction.amount * 100);
+      const step = Math.round(rule.roundTo! * 100);
+      return (Math.ceil(cents / step) * step - cents) / 100;
+    }
+  }
+}
+
+// Run a new transaction through the joint account's auto-save rules, adding a goal
+// contribution for each one that matches. Errors are logged per rule so one bad rule
+// doesn't stop the others.
+export async function applyAutoSaveRules(transaction: Transaction): Promise<number> {
+  const db = getDb();
+  const rules = await db.collection<AutoSaveRule>('autoSaveRules')
+    .find({ jointAccountId: transaction.jointAccountId, active: true })
+    .toArray();
+
+  let applied = 0;
+  for (const rule of rules) {
+    try {
+      const amount = autoSaveAmount(rule, transaction);
+      if (amount <= 0) continue;
+
+      const goal = await db.collection<Goal>('goals').findOne({ id: rule.goalId });
+      // Finished goals don't need more money
+      if (!goal || goal.currentAmount >= goal.targetAmount) continue;
+
+      const converted = await createCurrencyConverter(goal.currency)
+        .convert(amount, transaction.currency, transaction.date);
+      if (converted === null || converted <= 0) continue;
+
+      const result = await addGoalContribution(
+        goal,
+        {
+          type: GoalContributionType.DEPOSIT,
+          amount: converted,
+          date: transaction.date.slice(0, 10),
+          note: rule.type === AutoSaveRuleType.ROUND_UP ? 'Round-up' : `${rule.percent}% of ${transaction.category}`,
+          transactionId: transaction.id,
+          autoSaveRuleId: rule.id
+        },
+        { id: transaction.addedByUserId, name: transaction.addedByUserName }
+      );
+
+      // addGoalContribution emits goal:contribution-added to the joint account
+      if (result.contribution) applied++;
+    } catch (error: any) {
+      // Already applied to this transaction
+      if (error?.code === 11000) continue;
+      console.error(`Failed to apply auto-save rule ${rule.id}:`, error);
+    }
+  }
+  return applied;
+}
@@ -0,0 +1,124 @@
+import { getDb } from '../config/database.js';
+import { Budget, Transaction, TransactionType } from '../types/index.js';
+import { createCurrencyConverter } from './exchangeRateService.js';
+import { notifyJointAccountMembers } from './pushService.js';
+import { emitToJointAccount, SocketEvents } from './socketService.js';
+import { addMonthsToKey, monthKey, monthRange } from '../utils/dates.js';
+
+// Percent-of-limit levels that trigger an overspend alert
+export const BUDGET_ALERT_THRESHOLDS = [80, 100];
+
+export interface BudgetProgress {
+  budgetId: string;
+  category: string;
+  month: string;
+  currency: string;
+  limit: number;
+  rolloverAmount: number; // Unspent amount carried in from earlier months
+  available: number; // limit + rolloverAmount
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+}
+
+// Expenses in the budget's category per month (converted into the budget currency)
+async function spentByMonth(budget: Budget, fromMonth: string, toMonth: string): Promise<Record<string, number>> {
+  const db = getDb();
+  const transactions = await db.collection<Transaction>('transactions')
+    .find({
+      jointAccountId: budget.jointAccountId,
+      category: budget.category,
+      type: TransactionType.EXPENSE,
+      date: { $gte: monthRange(fromMonth).start, $lt: monthRange(toMonth).end }
+    })
+    .project<Pick<Transaction, 'amount' | 'currency' | 'date'>>({ amount: 1, currency: 1, date: 1 })
+    .toArray();
+
+  const converter = createCurrencyConverter(budget.currency);
+  const totals: Record<string, number> = {};
+
+  for (const t of transactions) {
+    // Amounts without a known rate can't be compared to the limit - leave them out
+    const amount = await converter.convert(t.amount, t.currency || budget.currency, t.date);
+    if (amount === null) continue;
+    const month = monthKey(t.date);
+    totals[month] = (totals[month] || 0) + amount;
+  }
+
+  return totals;
+}
+
+// Compute how much of a budget is used in a month, including rollover from earlier months
+export async function computeBudgetProgress(budget: Budget, month: string): Promise<BudgetProgress> {
+  const firstMonth = budget.rollover && budget.startMonth < month ? budget.startMonth : month;
+  const spent = await spentByMonth(budget, firstMonth, month);
+
+  // Carry forward whatever was left unspent each month; overspending doesn't go negative
+  let rolloverAmount = 0;
+  if (budget.rollover) {
+    for (let m = budget.startMonth; m < month; m = addMonthsToKey(m, 1)) {
+      rolloverAmount = Math.max(0, rolloverAmount + budget.monthlyLimit - (spent[m] || 0));
+    }
+  }
+
+  const available = budget.monthlyLimit + rolloverAmount;
+  const spentThisMonth = Math.round((spent[month] || 0) * 100) / 100;
+
+  return {
+    budgetId: budget.id,
+    category: budget.category,
+    month,
+    currency: budget.currency,
+    limit: budget.monthlyLimit,
+    rolloverAmount: Math.round(rolloverAmount * 100) / 100,
+    available: Math.round(available * 100) / 100,
+    spent: spentThisMonth,
+    remaining: Math.round((available - spentThisMonth) * 100) / 100,
+    percentUsed: available > 0 ? Math.round((spentThisMonth / available) * 1000) / 10 : 0
+  };
+}
+
+// After an expense is added or changed, alert members when its category budget crosses 80% / 100%.
+// Each threshold is only sent once per budget and month.
+export async function checkBudgetAlerts(transaction: Transaction, actorUserId: string): Promise<void> {
+  if (transaction.type !== TransactionType.EXPENSE) return;
+
+  const db = getDb();
+  const month = monthKey(transaction.date);
+
+  const budgets = await db.collection<Budget>('budgets')
+    .find({ jointAccountId: transaction.jointAccountId, category: transaction.category, startMonth: { $lte: month } })
+    .toArray();
+
+  for (const budget of budgets) {
+    const progress = await computeBudgetProgress(budget, month);
+    const crossed = BUDGET_ALERT_THRESHOLDS.filter(t => progress.percentUsed >= t);
+    const threshold = crossed[crossed.length - 1];
+    if (threshold === undefined) continue;
+
+    // Claim the alert atomically so concurrent expenses don't both send it
+    const claimed = await db.collection<Budget>('budgets').updateOne(
+      { id: budget.id, [`alertsSent.${month}`]: { $ne: threshold } },
+      { $addToSet: { [`alertsSent.${month}`]: { $each: crossed } } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    emitToJointAccount(transaction.jointAccountId, SocketEvents.BUDGET_THRESHOLD_REACHED, {
+      jointAccountId: transaction.jointAccountId,
+      budgetId: budget.id,
+      threshold,
+      progress,
+      transactionId: transaction.id,
+      triggeredBy: actorUserId
+    });
+
+    const overBudget = threshold >= 100;
+    notifyJointAccountMembers(transaction.jointAccountId, '', {
+      title: overBudget ? `🚨 ${budget.category} budget exceeded` : `⚠️ ${budget.category} budget at ${threshold}%`,
+      body: `${progress.currency} ${progress.spent.toLocaleString()} of ${progress.available.toLocaleString()} spent this month`,
+      icon: process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/icon-192.png` : 'https://money-flow-six.vercel.app/icon-192.png',
+      tag: `budget-${budget.id}-${month}-${threshold}`,
+      data: { type: 'budget-alert', budgetId: budget.id, jointAccountId: transaction.jointAccountId, url: '/budgets' }
+    }).catch(err => console.error('Budget notification error:', err));
+  }
+}
@@ -0,0 +1,90 @@
+import { getDb } from '../config/database.js';
+import { ChangeLogEntry } from '../types/index.js';
+
+// Changes handed out per sync request
+export const MAX_SYNC_CHANGES = 500;
+
+// Tries at claiming a sequence number before giving up (only concurrent changes collide)
+const MAX_SEQUENCE_ATTEMPTS = 20;
+
+interface ChangeLogCounter {
+  jointAccountId: string;
+  seq: number;
+}
+
+// Highest sequence number used by a joint account. The counter keeps it once entries have
+// expired; the newest entry covers a counter that hasn't caught up yet.
+async function latestSequence(jointAccountId: string): Promise<number> {
+  const db = getDb();
+  const [counter, newest] = await Promise.all([
+    db.collection<ChangeLogCounter>('changeLogCounters').findOne({ jointAccountId }),
+    db.collection<ChangeLogEntry>('changeLog').find({ jointAccountId }).sort({ seq: -1 }).limit(1).next()
+  ]);
+  return Math.max(counter?.seq ?? 0, newest?.seq ?? 0);
+}
+
+// Append a change to a joint account's log and return its sequence number.
+// The seq is claimed by inserting the entry itself (the unique index turns away a seq that was
+// taken meanwhile, and the next one is tried), so an entry only becomes visible after every
+// lower seq is - a client that syncs up to the latest seq can't skip a change still in flight.
+export async function recordChange(jointAccountId: string, event: string, data: any): Promise<number> {
+  const db = getDb();
+
+  for (let attempt = 1; ; attempt++) {
+    const seq = (await latestSequence(jointAccountId)) + 1;
+    const entry: ChangeLogEntry = {
+      jointAccountId,
+      seq,
+      event,
+      entity: event.split(':')[0],
+      data,
+      createdAt: new Date()
+    };
+
+    try {
+      await db.collection<ChangeLogEntry>('changeLog').insertOne(entry);
+    } catch (error: any) {
+      if (error?.code === 11000 && attempt < MAX_SEQUENCE_ATTEMPTS) continue;
+      throw error;
+    }
+
+    await db.collection<ChangeLogCounter>('changeLogCounters').updateOne(
+      { jointAccountId },
+      { $max: { seq } },
+      { upsert: true }
+    );
+    return seq;
+  }
+}
+
+export interface ChangesSince {
+  changes: ChangeLogEntry[];
+  latestSeq: number;
+  hasMore: boolean; // Ask again from the last returned seq
+  resetRequired: boolean; // Older changes have expired - reload everything instead
+}
+
+// Changes of a joint account after a sequence number, oldest first
+export async function getChangesSince(jointAccountId: string, since: number, limit: number = MAX_SYNC_CHANGES): Promise<ChangesSince> {
+  const db = getDb();
+
+  // Read the latest seq first and stay at or below it, so latestSeq covers every change returned
+  const latestSeq = await latestSequence(jointAccountId);
+  const [oldest, changes] = await Promise.all([
+    db.collection<ChangeLogEntry>('changeLog').find({ jointAccountId }).sort({ seq: 1 }).limit(1).next(),
+    db.collection<ChangeLogEntry>('changeLog')
+      .find({ jointAccountId, seq: { $gt: since, $lte: latestSeq } }, { projection: { _id: 0 } })
+      .sort({ seq: 1 })
+      .limit(limit + 1)
+      .toArray()
+  ]);
+
+  return {
+    changes: changes.slice(0, limit),
+    latestSeq,
+    hasMore: changes.length > limit,
+    // A gap between `since` and the oldest entry kept means some changes were purged;
+    // a `since` past the latest seq comes from a log the client can't match up with
+    resetRequired: since > latestSeq || (since < latestSeq && (!oldest || oldest.seq > since + 1))
+  };
+}
@@ -256,3 +256,103 @@ If you didn't request a password reset, you can safely ignore this email.
 
   return { html, text };
 }
+
+// Subscription names come from users - escape them before putting them in HTML
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function getBillReminderEmailTemplate(options: {
+  subscriptionName: string;
+  amount: number;
+  currency: string;
+  billingDate: string;
+  daysUntil: number;
+  trialEnding?: boolean; // First paid charge after a free trial
+  trialEndsAt?: string; // Shown when the trial ends before the billing date
+  accountName: string;
+  userName?: string;
+}): { subject: string; html: string; text: string } {
+  const { amount, currency, billingDate, daysUntil, trialEnding, trialEndsAt, userName } = options;
+  const when = daysUntil === 0 ? 'today' : daysUntil === 1 ? 'tomorrow' : `in ${daysUntil} days`;
+  const trialWhen = trialEndsAt && trialEndsAt !== billingDate ? `on ${trialEndsAt}` : when;
+  const headline = trialEnding ? `free trial ends ${trialWhen}` : `renews ${when}`;
+  const formattedAmount = `${currency} ${amount.toLocaleString()}`;
+  const subscriptionName = escapeHtml(options.subscriptionName);
+  const accountName = escapeHtml(options.accountName);
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Upcoming Bill - FlowMoney</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #000000; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 480px; width: 100%; border-collapse: collapse;">
+          <!-- Logo/Header -->
+          <tr>
+            <td align="center" style="padding-bottom: 30px;">
+              <h1 style="margin: 0; font-size: 32px; color: #ffffff;">
+                💰 FlowMoney
+              </h1>
+            </td>
+          </tr>
+          
+          <!-- Main Content -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%); border-radius: 16px; padding: 40px 30px;">
+              <h2 style="margin: 0 0 20px; font-size: 24px; color: #ffffff; text-align: center;">
+                ${subscriptionName} ${headline}
+              </h2>
+              
+              <p style="margin: 0 0 20px; font-size: 16px; line-height: 1.6; color: #a0aec0; text-align: center;">
+                ${userName ? `Hi ${escapeHtml(userName)}! ` : ''}<strong style="color: #ffffff;">${formattedAmount}</strong> will be charged on ${billingDate} for ${subscriptionName} in ${accountName}.${trialEnding ? ' This is the first paid charge after the free trial - cancel before then if you don\'t want to keep it.' : ''}
+              </p>
+              
+              <hr style="margin: 30px 0; border: none; border-top: 1px solid #2d3748;">
+              
+              <p style="margin: 0; font-size: 12px; color: #718096; text-align: center;">
+                You get these reminders because notifications are turned on in your FlowMoney settings.
+              </p>
+            </td>
+          </tr>
+          
+          <!-- Footer -->
+          <tr>
+            <td align="center" style="padding-top: 30px;">
+              <p style="margin: 0; font-size: 12px; color: #4a5568;">
+                © ${new Date().getFullYear()} FlowMoney. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+
+  const text = `
+FlowMoney - Upcoming Bill
+
+${userName ? `Hi ${userName}! ` : ''}${options.subscriptionName} ${headline}.
+
+${formattedAmount} will be charged on ${billingDate} in ${options.accountName}.${trialEnding ? ' This is the first paid charge after the free trial.' : ''}
+
+You get these reminders because notifications are turned on in your FlowMoney settings.
+
+© ${new Date().getFullYear()} FlowMoney
+  `;
+
+  return { subject: `${options.subscriptionName} ${headline} (${formattedAmount})`, html, text };
+}
@@ -0,0 +1,256 @@
+import { getDb } from '../config/database.js';
+import {
+  Envelope,
+  EnvelopeAllocation,
+  EnvelopeTransfer,
+  JointAccount,
+  Transaction,
+  TransactionType
+} from '../types/index.js';
+import { createCurrencyConverter } from './exchangeRateService.js';
+
+export interface EnvelopeBalance {
+  envelopeId: string;
+  name: string;
+  allocated: number;
+  transferredIn: number;
+  transferredOut: number;
+  spent: number;
+  balance: number;
+}
+
+export interface EnvelopeSummary {
+  currency: string; // The joint account's primary currency
+  totalIncome: number;
+  allocatedIncome: number;
+  unassignedIncome: number; // Negative when more was allocated than came in
+  envelopes: EnvelopeBalance[];
+  negativeEnvelopes: EnvelopeBalance[];
+  // Income transactions that still have money to allocate
+  unallocatedTransactions: Array<{ transactionId: string; date: string; amount: number; allocated: number; remaining: number }>;
+  // Expenses that don't draw from any envelope (e.g. imported before envelopes existed)
+  unassignedExpenses: { count: number; amount: number };
+}
+
+export interface AllocationInput {
+  envelopeId: string;
+  amount: number;
+}
+
+export interface EnvelopeUser {
+  id: string;
+  name: string;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Pick the envelope an expense draws from: the one given explicitly, otherwise the
+// envelope that lists the expense's category. Resolves to null when neither applies.
+export async function resolveExpenseEnvelope(
+  jointAccountId: string,
+  category: string,
+  envelopeId?: string
+): Promise<{ envelopeId: string | null; error?: string }> {
+  const db = getDb();
+
+  if (envelopeId) {
+    const envelope = await db.collection<Envelope>('envelopes').findOne({ id: envelopeId, jointAccountId });
+    return envelope ? { envelopeId } : { envelopeId: null, error: 'Envelope not found in this joint account' };
+  }
+
+  const envelope = await db.collection<Envelope>('envelopes').findOne({ jointAccountId, categories: category });
+  return { envelopeId: envelope?.id ?? null };
+}
+
+// Balances of every envelope plus what is still waiting to be allocated
+export async function computeEnvelopeSummary(account: JointAccount): Promise<EnvelopeSummary> {
+  const db = getDb();
+  const currency = account.primaryCurrency;
+  const converter = createCurrencyConverter(currency);
+
+  const [envelopes, allocations, transfers, transactions] = await Promise.all([
+    db.collection<Envelope>('envelopes').find({ jointAccountId: account.id }).sort({ name: 1 }).toArray(),
+    db.collection<EnvelopeAllocation>('envelopeAllocations').find({ jointAccountId: account.id }).toArray(),
+    db.collection<EnvelopeTransfer>('envelopeTransfers').find({ jointAccountId: account.id }).toArray(),
+    db.collection<Transaction>('transactions')
+      .find({ jointAccountId: account.id })
+      .project<Pick<Transaction, 'id' | 'amount' | 'currency' | 'date' | 'type' | 'envelopeId'>>({
+        id: 1, amount: 1, currency: 1, date: 1, type: 1, envelopeId: 1
+      })
+      .toArray()
+  ]);
+
+  const balances = new Map<string, EnvelopeBalance>(envelopes.map(e => [e.id, {
+    envelopeId: e.id,
+    name: e.name,
+    allocated: 0,
+    transferredIn: 0,
+    transferredOut: 0,
+    spent: 0,
+    balance: 0
+  }]));
+
+  const allocatedByTransaction = new Map<string, number>();
+  for (const a of allocations) {
+    const balance = balances.get(a.envelopeId);
+    if (balance) balance.allocated += a.amount;
+    allocatedByTransaction.set(a.transactionId, (allocatedByTransaction.get(a.transactionId) || 0) + a.amount);
+  }
+
+  for (const t of transfers) {
+    const from = balances.get(t.fromEnvelopeId);
+    const to = balances.get(t.toEnvelopeId);
+    if (from) from.transferredOut += t.amount;
+    if (to) to.transferredIn += t.amount;
+  }
+
+  let totalIncome = 0;
+  const unallocatedTransactions: EnvelopeSummary['unallocatedTransactions'] = [];
+  const unassignedExpenses = { count: 0, amount: 0 };
+
+  for (const t of transactions) {
+    // Transactions without a rate can't be put against envelopes
+    const amount = await converter.convert(t.amount, t.currency || currency, t.date);
+    if (amount === null) continue;
+
+    if (t.type === TransactionType.INCOME) {
+      totalIncome += amount;
+      const allocated = allocatedByTransaction.get(t.id) || 0;
+      if (amount - allocated >= 0.01) {
+        unallocatedTransactions.push({
+          transactionId: t.id,
+          date: t.date,
+          amount,
+          allocated: round(allocated),
+          remaining: round(amount - allocated)
+        });
+      }
+    } else {
+      const balance = t.envelopeId ? balances.get(t.envelopeId) : undefined;
+      if (balance) {
+        balance.spent += amount;
+      } else {
+        unassignedExpenses.count += 1;
+        unassignedExpenses.amount += amount;
+      }
+    }
+  }
+
+  const envelopeBalances = Array.from(balances.values()).map(b => ({
+    ...b,
+    allocated: round(b.allocated),
+    transferredIn: round(b.transferredIn),
+    transferredOut: round(b.transferredOut),
+    spent: round(b.spent),
+    balance: round(b.allocated + b.transferredIn - b.transferredOut - b.spent)
+  }));
+
+  const allocatedIncome = allocations.reduce((sum, a) => sum + a.amount, 0);
+
+  return {
+    currency,
+    totalIncome: round(totalIncome),
+    allocatedIncome: round(allocatedIncome),
+    unassignedIncome: round(totalIncome - allocatedIncome),
+    envelopes: envelopeBalances,
+    negativeEnvelopes: envelopeBalances.filter(b => b.balance < 0),
+    unallocatedTransactions: unallocatedTransactions.sort((a, b) => a.date.localeCompare(b.date)),
+    unassignedExpenses: { count: unassignedExpenses.count, amount: round(unassignedExpenses.amount) }
+  };
+}
+
+// Split an income transaction into envelopes. Replaces any earlier allocation of it.
+export async function allocateIncome(
+  account: JointAccount,
+  transactionId: string,
+  input: AllocationInput[],
+  user: EnvelopeUser
+): Promise<{ allocations?: EnvelopeAllocation[]; error?: string }> {
+  const db = getDb();
+
+  const transaction = await db.collection<Transaction>('transactions')
+    .findOne({ id: transactionId, jointAccountId: account.id });
+
+  if (!transaction) return { error: 'Transaction not found' };
+  if (transaction.type !== TransactionType.INCOME) return { error: 'Only income can be allocated to envelopes' };
+
+  if (input.some(a => !a || typeof a.envelopeId !== 'string' || !(Number(a.amount) > 0))) {
+    return { error: 'Each allocation needs an envelopeId and a positive amount' };
+  }
+
+  const envelopeIds = Array.from(new Set(input.map(a => a.envelopeId)));
+  const found = await db.collection<Envelope>('envelopes')
+    .countDocuments({ jointAccountId: account.id, id: { $in: envelopeIds } });
+  if (found !== envelopeIds.length) return { error: 'Envelope not found in this joint account' };
+
+  const converter = createCurrencyConverter(account.primaryCurrency);
+  const incomeAmount = await converter.convert(
+    transaction.amount,
+    transaction.currency || account.primaryCurrency,
+    transaction.date
+  );
+  if (incomeAmount === null) {
+    return { error: `No exchange rate from ${transaction.currency} to ${account.primaryCurrency} for ${transaction.date}` };
+  }
+
+  const total = input.reduce((sum, a) => sum + Number(a.amount), 0);
+  if (total - incomeAmount > 0.005) {
+    return { error: `Allocations (${round(total)}) exceed the income amount (${round(incomeAmount)} ${account.primaryCurrency})` };
+  }
+
+  const now = new Date();
+  const allocations: EnvelopeAllocation[] = input.map(a => ({
+    id: crypto.randomUUID(),
+    jointAccountId: account.id,
+    envelopeId: a.envelopeId,
+    transactionId,
+    amount: round(Number(a.amount)),
+    allocatedByUserId: user.id,
+    allocatedByUserName: user.name,
+    createdAt: now
+  }));
+
+  await db.collection<EnvelopeAllocation>('envelopeAllocations').deleteMany({ transactionId });
+  if (allocations.length > 0) {
+    await db.collection<EnvelopeAllocation>('envelopeAllocations').insertMany(allocations);
+  }
+
+  return { allocations };
+}
+
+// Move money from one envelope to another, recording who did it
+export async function transferBetweenEnvelopes(
+  account: JointAccount,
+  fromEnvelopeId: string,
+  toEnvelopeId: string,
+  amount: number,
+  note: string | undefined,
+  user: EnvelopeUser
+): Promise<{ transfer?: EnvelopeTransfer; error?: string }> {
+  const db = getDb();
+
+  if (!(amount > 0)) return { error: 'Amount must be a positive number' };
+  if (fromEnvelopeId === toEnvelopeId) return { error: 'Choose two different envelopes' };
+
+  const found = await db.collection<Envelope>('envelopes')
+    .countDocuments({ jointAccountId: account.id, id: { $in: [fromEnvelopeId, toEnvelopeId] } });
+  if (found !== 2) return { error: 'Envelope not found in this joint account' };
+
+  const transfer: EnvelopeTransfer = {
+    id: crypto.randomUUID(),
+    jointAccountId: account.id,
+    fromEnvelopeId,
+    toEnvelopeId,
+    amount: round(amount),
+    note: note || undefined,
+    transferredByUserId: user.id,
+    transferredByUserName: user.name,
+    createdAt: new Date()
+  };
+
+  await db.collection<EnvelopeTransfer>('envelopeTransfers').insertOne(transfer);
+
+  return { transfer };
+}
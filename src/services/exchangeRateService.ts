@@ -0,0 +1,232 @@
+import { readFile } from 'fs/promises';
+import { getDb } from '../config/database.js';
+import { Currency, ExchangeRate } from '../types/index.js';
+import { parseCsv } from '../utils/csv.js';
+
+// Rates are stored against a single base currency (EUR, like the ECB reference rates),
+// so any pair can be converted through it.
+export const RATE_BASE_CURRENCY = Currency.EUR;
+
+// A dated rate: units of `currency` per 1 unit of the base currency
+export interface RateQuote {
+  date: string;
+  currency: Currency;
+  rate: number;
+}
+
+// Pluggable source of exchange rates (ECB file, a paid API, a test fixture...)
+export interface ExchangeRateProvider {
+  name: string;
+  fetchRates(): Promise<RateQuote[]>;
+}
+
+// A rate pair that was actually applied during a conversion
+export interface ExchangeRateUsage {
+  from: string;
+  to: string;
+  rate: number; // Multiply an amount in `from` by this to get `to`
+  rateDate: string; // Date of the stored rates used (may be earlier than the transaction date)
+  requestedDate: string;
+}
+
+const providers: ExchangeRateProvider[] = [];
+let refreshTimer: NodeJS.Timeout | null = null;
+
+// Parse the ECB reference rate CSV (eurofxref-hist.csv / eurofxref.csv):
+// Date,USD,JPY,...  then one row per day, with N/A for currencies that were not quoted
+export function parseEcbCsv(content: string): RateQuote[] {
+  const records = parseCsv(content);
+  if (records.length < 2) return [];
+
+  const header = records[0].map(h => h.trim().toUpperCase());
+  const quotes: RateQuote[] = [];
+
+  for (const record of records.slice(1)) {
+    const rawDate = record[0]?.trim();
+    const parsed = rawDate ? new Date(rawDate) : null;
+    if (!parsed || Number.isNaN(parsed.getTime())) continue;
+    // Daily files use "31 January 2024" - read it back from local parts to avoid timezone shifts
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(rawDate)
+      ? rawDate
+      : `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
+
+    header.forEach((code, i) => {
+      if (i === 0 || !(code in Currency)) return;
+      const rate = Number(record[i]?.trim());
+      if (!rate || Number.isNaN(rate)) return;
+      quotes.push({ date, currency: code as Currency, rate });
+    });
+  }
+
+  return quotes;
+}
+
+// Provider backed by an ECB-style CSV file on disk
+export function createEcbCsvFileProvider(path: string): ExchangeRateProvider {
+  return {
+    name: `ecb-csv:${path}`,
+    async fetchRates() {
+      const content = await readFile(path, 'utf8');
+      return parseEcbCsv(content);
+    }
+  };
+}
+
+export function registerExchangeRateProvider(provider: ExchangeRateProvider): void {
+  providers.push(provider);
+}
+
+// Upsert quotes into the rate store. Returns how many rates were written.
+export async function saveExchangeRates(quotes: RateQuote[], source: string): Promise<number> {
+  if (quotes.length === 0) return 0;
+
+  const db = getDb();
+  const now = new Date();
+
+  const result = await db.collection<ExchangeRate>('exchangeRates').bulkWrite(
+    quotes.map(q => ({
+      updateOne: {
+        filter: { base: RATE_BASE_CURRENCY, currency: q.currency, date: q.date },
+        update: {
+          $set: { rate: q.rate, source },
+          $setOnInsert: { base: RATE_BASE_CURRENCY, currency: q.currency, date: q.date, createdAt: now }
+        },
+        upsert: true
+      }
+    })),
+    { ordered: false }
+  );
+
+  return result.upsertedCount + result.modifiedCount;
+}
+
+// Pull rates from every registered provider into the store
+export async function refreshExchangeRates(): Promise<void> {
+  for (const provider of providers) {
+    try {
+      const quotes = await provider.fetchRates();
+      const written = await saveExchangeRates(quotes, provider.name);
+      console.log(`💱 Loaded ${quotes.length} exchange rates from ${provider.name} (${written} new or changed)`);
+    } catch (error) {
+      console.error(`Failed to load exchange rates from ${provider.name}:`, error);
+    }
+  }
+}
+
+// Register the configured providers and keep rates fresh
+export function initializeExchangeRateService(): void {
+  const csvPath = process.env.EXCHANGE_RATES_CSV_PATH;
+
+  if (csvPath) {
+    registerExchangeRateProvider(createEcbCsvFileProvider(csvPath));
+  }
+
+  if (providers.length === 0) {
+    console.warn('⚠️ No exchange rate provider configured. Set EXCHANGE_RATES_CSV_PATH to an ECB-style CSV file.');
+    console.warn('   Multi-currency totals will only include amounts already in the target currency.');
+    return;
+  }
+
+  refreshExchangeRates().catch(err => console.error('Exchange rate refresh error:', err));
+
+  const hours = Number(process.env.EXCHANGE_RATES_REFRESH_HOURS || 24);
+  refreshTimer = setInterval(() => {
+    refreshExchangeRates().catch(err => console.error('Exchange rate refresh error:', err));
+  }, hours * 60 * 60 * 1000);
+  refreshTimer.unref();
+
+  console.log('✅ Exchange rate service initialized');
+}
+
+// Whether any rates have been loaded into the store yet
+export async function hasExchangeRates(): Promise<boolean> {
+  const db = getDb();
+  const rate = await db.collection<ExchangeRate>('exchangeRates').findOne({ base: RATE_BASE_CURRENCY });
+  return rate !== null;
+}
+
+// Latest stored rate for a currency on or before the given date
+async function findRate(currency: string, date: string): Promise<{ rate: number; date: string } | null> {
+  if (currency === RATE_BASE_CURRENCY) return { rate: 1, date };
+
+  const db = getDb();
+  const rate = await db.collection<ExchangeRate>('exchangeRates')
+    .find({ base: RATE_BASE_CURRENCY, currency: currency as Currency, date: { $lte: date } })
+    .sort({ date: -1 })
+    .limit(1)
+    .next();
+
+  return rate ? { rate: rate.rate, date: rate.date } : null;
+}
+
+// Rates for every known currency on a date (latest on or before it)
+export async function getRatesOn(date: string): Promise<RateQuote[]> {
+  const db = getDb();
+  const latest = await db.collection<ExchangeRate>('exchangeRates')
+    .aggregate<{ _id: Currency; rate: number; date: string }>([
+      { $match: { base: RATE_BASE_CURRENCY, date: { $lte: date } } },
+      { $sort: { date: -1 } },
+      { $group: { _id: '$currency', rate: { $first: '$rate' }, date: { $first: '$date' } } },
+      { $sort: { _id: 1 } }
+    ])
+    .toArray();
+
+  return [
+    { date, currency: RATE_BASE_CURRENCY, rate: 1 },
+    ...latest.map(r => ({ date: r.date, currency: r._id, rate: r.rate }))
+  ];
+}
+
+// Converts amounts into one target currency, caching rate lookups per currency and day.
+// convert() resolves to null when no rate is known for the source currency.
+// Every rate pair applied is recorded so callers can report what was used.
+export function createCurrencyConverter(targetCurrency: Currency | string) {
+  const cache = new Map<string, Promise<{ rate: number; date: string } | null>>();
+  const used = new Map<string, ExchangeRateUsage>();
+  const missing = new Set<string>();
+
+  const lookup = (currency: string, date: string) => {
+    const key = `${currency}:${date}`;
+    if (!cache.has(key)) cache.set(key, findRate(currency, date));
+    return cache.get(key)!;
+  };
+
+  return {
+    targetCurrency,
+    async convert(amount: number, fromCurrency: Currency | string, date: string): Promise<number | null> {
+      if (fromCurrency === targetCurrency) return amount;
+
+      const day = date.slice(0, 10);
+      const [fromRate, toRate] = await Promise.all([lookup(fromCurrency, day), lookup(targetCurrency, day)]);
+      if (!fromRate || !toRate) {
+        missing.add(fromCurrency);
+        return null;
+      }
+
+      const rate = toRate.rate / fromRate.rate;
+      const key = `${fromCurrency}:${day}`;
+      if (!used.has(key)) {
+        used.set(key, {
+          from: fromCurrency,
+          to: targetCurrency,
+          rate: Math.round(rate * 1e6) / 1e6,
+          // The older of the two quotes is the one that limits freshness
+          rateDate: fromRate.date < toRate.date ? fromRate.date : toRate.date,
+          requestedDate: day
+        });
+      }
+
+      return Math.round(amount * rate * 100) / 100;
+    },
+    ratesUsed(): ExchangeRateUsage[] {
+      return Array.from(used.values()).sort((a, b) =>
+        a.from.localeCompare(b.from) || a.requestedDate.localeCompare(b.requestedDate)
+      );
+    },
+    missingCurrencies(): string[] {
+      return Array.from(missing).sort();
+    }
+  };
+}
+
+export type CurrencyConverter = ReturnType<typeof createCurrencyConverter>;
@@ -0,0 +1,130 @@
+import { once } from 'events';
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+import { getDb } from '../config/database.js';
+import { Transaction, Currency } from '../types/index.js';
+import { toCsvLine } from '../utils/csv.js';
+import { createCurrencyConverter } from './exchangeRateService.js';
+
+export type TransactionExportFormat = 'csv' | 'xlsx' | 'ndjson';
+
+export const TRANSACTION_EXPORT_FORMATS: TransactionExportFormat[] = ['csv', 'xlsx', 'ndjson'];
+
+export interface TransactionExportOptions {
+  format: TransactionExportFormat;
+  convertTo?: Currency | string; // Add converted amounts in this currency
+  fileName: string; // Without extension
+}
+
+// Build the transactions filter shared by the list and export routes
+export function buildTransactionFilter(
+  jointAccountId: string,
+  query: { startDate?: unknown; endDate?: unknown; type?: unknown; category?: unknown }
+): Record<string, any> {
+  const { startDate, endDate, type, category } = query;
+  const filter: any = { jointAccountId };
+  
+  if (startDate || endDate) {
+    filter.date = {};
+    if (startDate) filter.date.$gte = startDate;
+    if (endDate) filter.date.$lte = endDate;
+  }
+  
+  if (type) filter.type = type;
+  if (category) filter.category = category;
+
+  return filter;
+}
+
+// File-name friendly version of an account name ("Casa & Co" -> "casa-co")
+export function exportFileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'account';
+}
+
+const COLUMNS = ['Date', 'Type', 'Category', 'Amount', 'Currency', 'Note', 'Member'];
+
+// Text that starts like a formula is prefixed with ' so Excel and Sheets show it instead of running it
+function spreadsheetText(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+// Stream every matching transaction to the response without loading them all into memory
+export async function streamTransactionExport(
+  res: Response,
+  filter: Record<string, any>,
+  options: TransactionExportOptions
+): Promise<void> {
+  const db = getDb();
+  const cursor = db.collection<Transaction>('transactions')
+    .find(filter)
+    .sort({ date: -1, createdAt: -1 });
+
+  const converter = options.convertTo ? createCurrencyConverter(options.convertTo) : null;
+  const columns = converter ? [...COLUMNS, `Amount (${converter.targetCurrency})`] : COLUMNS;
+
+  // Row for the CSV and XLSX formats (user-entered text is escaped for spreadsheets)
+  const toRecord = async (t: Transaction) => {
+    const converted = converter ? await converter.convert(t.amount, t.currency, t.date) : undefined;
+    return {
+      date: t.date,
+      type: t.type,
+      category: spreadsheetText(t.category),
+      amount: t.amount,
+      currency: t.currency,
+      note: spreadsheetText(t.note || ''),
+      member: spreadsheetText(t.addedByUserName),
+      ...(converter ? { convertedAmount: converted } : {})
+    };
+  };
+
+  // Respect backpressure so slow clients don't make us buffer the whole export
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) await once(res, 'drain');
+  };
+
+  if (options.format === 'xlsx') {
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${options.fileName}.xlsx"`);
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+    const sheet = workbook.addWorksheet('Transactions');
+    sheet.columns = columns.map(header => ({ header, width: header === 'Note' ? 40 : 16 }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(1).commit();
+
+    for await (const t of cursor) {
+      sheet.addRow(Object.values(await toRecord(t))).commit();
+    }
+
+    sheet.commit();
+    await workbook.commit();
+    return;
+  }
+
+  if (options.format === 'ndjson') {
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${options.fileName}.ndjson"`);
+
+    for await (const t of cursor) {
+      const { _id, ...transaction } = t as Transaction & { _id?: unknown };
+      const converted = converter ? await converter.convert(t.amount, t.currency, t.date) : undefined;
+      const line = converter
+        ? { ...transaction, convertedAmount: converted, convertedCurrency: converter.targetCurrency }
+        : transaction;
+      await write(JSON.stringify(line) + '\n');
+    }
+
+    res.end();
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${options.fileName}.csv"`);
+
+  await write(toCsvLine(columns));
+  for await (const t of cursor) {
+    await write(toCsvLine(Object.values(await toRecord(t))));
+  }
+
+  res.end();
+}
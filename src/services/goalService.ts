@@ -0,0 +1,608 @@
+import { getDb } from '../config/database.js';
+import {
+  AuditAction,
+  AutoSaveRule,
+  Goal,
+  GoalContribution,
+  GoalContributionType,
+  GoalStatus,
+  MutationOutcome,
+  Transaction,
+  TransactionType
+} from '../types/index.js';
+import { createCurrencyConverter } from './exchangeRateService.js';
+import { notifyJointAccountMembers } from './pushService.js';
+import { emitToJointAccount, publishToJointAccount, SocketEvents } from './socketService.js';
+import { recordAudit } from './auditService.js';
+import { deleteToTrash } from './trashService.js';
+import { isJointAccountMember } from '../middleware/jointAccount.js';
+import { AVERAGE_DAYS_PER_MONTH } from '../utils/billing.js';
+import { addDaysISO, daysBetween, isISODate, todayISO } from '../utils/dates.js';
+import { bumpVersion, currentVersion, isClientId, versionFilter } from '../utils/mutations.js';
+
+// How far back savings history is looked at for a projection
+const PROJECTION_WINDOW_DAYS = 90;
+// Contributions needed before they're trusted over the account's surplus
+const MIN_PROJECTION_CONTRIBUTIONS = 2;
+
+export interface ContributionInput {
+  type: GoalContributionType;
+  amount: number;
+  date?: string;
+  note?: string;
+  transactionId?: string;
+  autoSaveRuleId?: string;
+}
+
+export interface ContributionUser {
+  id: string;
+  name: string;
+}
+
+export interface GoalInput {
+  id?: string; // Client-generated ID (offline creates)
+  jointAccountId?: string;
+  name?: string;
+  targetAmount?: number | string;
+  currentAmount?: number | string;
+  currency?: Goal['currency'];
+  deadline?: string;
+}
+
+export interface GoalProjection {
+  goalId: string;
+  currency: string;
+  targetAmount: number;
+  currentAmount: number;
+  remainingAmount: number;
+  // Where the savings rate comes from: the goal's own contributions, or what the account has
+  // left over after expenses when there are too few contributions to go by
+  rateSource: 'CONTRIBUTIONS' | 'ACCOUNT_SURPLUS';
+  savingsRate: { daily: number; weekly: number; monthly: number };
+  accountSurplus: { daily: number; weekly: number; monthly: number };
+  estimatedCompletionDate: string | null; // null when nothing is being saved
+  deadline: string | null;
+  daysLeft: number | null;
+  requiredRate: { daily: number; weekly: number; monthly: number } | null; // null without a deadline
+  status: GoalStatus;
+}
+
+// Deposits add to a goal, withdrawals take from it
+export function signedContribution(contribution: Pick<GoalContribution, 'type' | 'amount'>): number {
+  return contribution.type === GoalContributionType.WITHDRAWAL ? -contribution.amount : contribution.amount;
+}
+
+// Tell the other members when a goal crosses a 25% milestone or is achieved
+export function notifyGoalProgress(goal: Goal, previousAmount: number, actor: ContributionUser): void {
+  const oldProgress = (previousAmount / goal.targetAmount) * 100;
+  const newProgress = (goal.currentAmount / goal.targetAmount) * 100;
+  const iconUrl = process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/icon-192.png` : 'https://money-flow-six.vercel.app/icon-192.png';
+
+  if (newProgress >= 100 && oldProgress < 100) {
+    // Goal achieved!
+    notifyJointAccountMembers(goal.jointAccountId, actor.id, {
+      title: '🎉 Goal achieved!',
+      body: `"${goal.name}" has reached ${goal.currency} ${goal.targetAmount.toLocaleString()}!`,
+      icon: iconUrl,
+      tag: `goal-achieved-${goal.id}`,
+      data: { type: 'goal-achieved', goalId: goal.id, jointAccountId: goal.jointAccountId, url: '/goals' }
+    }).catch(err => console.error('Goal notification error:', err));
+  } else if (newProgress > oldProgress && (Math.floor(newProgress / 25) > Math.floor(oldProgress / 25))) {
+    // Crossed a 25% milestone
+    const milestone = Math.floor(newProgress / 25) * 25;
+    notifyJointAccountMembers(goal.jointAccountId, actor.id, {
+      title: `📈 ${actor.name || 'Someone'} added to a goal`,
+      body: `"${goal.name}" is now at ${milestone}% (${goal.currency} ${goal.currentAmount.toLocaleString()})`,
+      icon: iconUrl,
+      tag: `goal-progress-${goal.id}`,
+      data: { type: 'goal-progress', goalId: goal.id, jointAccountId: goal.jointAccountId, url: '/goals' }
+    }).catch(err => console.error('Goal notification error:', err));
+  }
+}
+
+// Record the amount a goal starts with as its first contribution, so the ledger adds up to currentAmount.
+// Safe to call more than once.
+export async function recordOpeningBalance(goal: Goal, user: ContributionUser): Promise<void> {
+  if (goal.currentAmount === 0) return;
+
+  await getDb().collection<GoalContribution>('goalContributions').updateOne(
+    { goalId: goal.id, openingBalance: true },
+    {
+      $setOnInsert: {
+        id: crypto.randomUUID(),
+        goalId: goal.id,
+        jointAccountId: goal.jointAccountId,
+        type: goal.currentAmount < 0 ? GoalContributionType.WITHDRAWAL : GoalContributionType.DEPOSIT,
+        amount: Math.abs(goal.currentAmount),
+        date: (goal.createdAt instanceof Date ? goal.createdAt.toISOString() : String(goal.createdAt)).slice(0, 10),
+        note: 'Opening balance',
+        openingBalance: true,
+        userId: user.id,
+        userName: user.name,
+        createdAt: new Date()
+      }
+    },
+    { upsert: true }
+  );
+}
+
+// Validate a deposit or withdrawal and build its ledger entry (nothing is written yet)
+async function prepareContribution(
+  goal: Goal,
+  input: ContributionInput,
+  user: ContributionUser
+): Promise<{ contribution?: GoalContribution; error?: string }> {
+  const db = getDb();
+
+  if (!Object.values(GoalContributionType).includes(input.type)) {
+    return { error: 'type must be DEPOSIT or WITHDRAWAL' };
+  }
+  const amount = Math.round(Number(input.amount) * 100) / 100;
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: 'amount must be a positive number' };
+  }
+  const date = input.date || todayISO();
+  if (!isISODate(date)) {
+    return { error: 'date must be in YYYY-MM-DD format' };
+  }
+  if (input.transactionId) {
+    const transaction = await db.collection<Transaction>('transactions')
+      .findOne({ id: input.transactionId, jointAccountId: goal.jointAccountId });
+    if (!transaction) return { error: 'Transaction not found in this joint account' };
+  }
+
+  const contribution: GoalContribution = {
+    id: crypto.randomUUID(),
+    goalId: goal.id,
+    jointAccountId: goal.jointAccountId,
+    type: input.type,
+    amount,
+    date,
+    ...(input.note && { note: input.note }),
+    ...(input.transactionId && { transactionId: input.transactionId }),
+    ...(input.autoSaveRuleId && { autoSaveRuleId: input.autoSaveRuleId }),
+    userId: user.id,
+    userName: user.name,
+    createdAt: new Date()
+  };
+
+  return { contribution };
+}
+
+// Add a deposit or withdrawal to a goal and move currentAmount with it.
+// Withdrawals can't take a goal below zero.
+export async function addGoalContribution(
+  goal: Goal,
+  input: ContributionInput,
+  user: ContributionUser
+): Promise<{ contribution?: GoalContribution; goal?: Goal; error?: string }> {
+  const db = getDb();
+
+  const { contribution, error } = await prepareContribution(goal, input, user);
+  if (!contribution) {
+    return { error };
+  }
+
+  const result = await applyToGoal(goal.id, signedContribution(contribution));
+  if (!result) {
+    return { error: 'Withdrawal is more than the goal has saved' };
+  }
+
+  try {
+    await db.collection<GoalContribution>('goalContributions').insertOne(contribution);
+  } catch (error) {
+    await applyToGoal(goal.id, -signedContribution(contribution));
+    throw error;
+  }
+
+  await recordAudit({
+    jointAccountId: goal.jointAccountId,
+    entity: 'goal',
+    entityId: goal.id,
+    action: AuditAction.UPDATE,
+    actor: user,
+    before: { currentAmount: result.before.currentAmount },
+    after: { currentAmount: result.after.currentAmount },
+    note: `${contribution.type === GoalContributionType.WITHDRAWAL ? 'Withdrawal' : 'Deposit'}${contribution.note ? `: ${contribution.note}` : ''}`
+  });
+
+  emitToJointAccount(goal.jointAccountId, SocketEvents.GOAL_CONTRIBUTION_ADDED, { contribution, goal: result.after });
+  notifyGoalProgress(result.after, result.before.currentAmount, user);
+
+  return { contribution, goal: result.after };
+}
+
+// Remove a contribution and take it back out of currentAmount
+export async function removeGoalContribution(
+  goal: Goal,
+  contribution: GoalContribution,
+  user: ContributionUser
+): Promise<{ goal?: Goal; error?: string }> {
+  const db = getDb();
+
+  const deleted = await db.collection<GoalContribution>('goalContributions').deleteOne({ id: contribution.id });
+  if (deleted.deletedCount === 0) return { goal }; // Already removed
+
+  const result = await applyToGoal(goal.id, -signedContribution(contribution));
+  if (!result) {
+    await db.collection<GoalContribution>('goalContributions').insertOne(contribution);
+    return { error: 'Removing this deposit would take the goal below zero' };
+  }
+
+  await recordAudit({
+    jointAccountId: goal.jointAccountId,
+    entity: 'goal',
+    entityId: goal.id,
+    action: AuditAction.UPDATE,
+    actor: user,
+    before: { currentAmount: result.before.currentAmount },
+    after: { currentAmount: result.after.currentAmount },
+    note: `Removed ${contribution.type === GoalContributionType.WITHDRAWAL ? 'withdrawal' : 'deposit'} of ${contribution.amount}`
+  });
+
+  emitToJointAccount(goal.jointAccountId, SocketEvents.GOAL_CONTRIBUTION_REMOVED, {
+    contributionId: contribution.id,
+    goalId: goal.id,
+    jointAccountId: goal.jointAccountId,
+    goal: result.after
+  });
+  notifyGoalProgress(result.after, result.before.currentAmount, user);
+
+  return { goal: result.after };
+}
+
+// Move currentAmount by delta in one update (a new version, so stale edits of the balance conflict).
+// Returns null when it would go below zero.
+async function applyToGoal(goalId: string, delta: number): Promise<{ before: Goal; after: Goal } | null> {
+  const after = await getDb().collection<Goal>('goals').findOneAndUpdate(
+    { id: goalId, ...(delta < 0 && { currentAmount: { $gte: -delta } }) },
+    [{
+      $set: {
+        // Rounded to cents in the update itself, so the stored balance is the one returned
+        currentAmount: { $round: [{ $add: ['$currentAmount', delta] }, 2] },
+        updatedAt: new Date(),
+        ...bumpVersion()
+      }
+    }],
+    { returnDocument: 'after' }
+  );
+  if (!after) return null;
+
+  return {
+    before: {
+      ...after,
+      currentAmount: Math.round((after.currentAmount - delta) * 100) / 100,
+      version: currentVersion(after) - 1
+    },
+    after
+  };
+}
+
+// Create a goal for a member. Creating again with the same client ID returns the stored goal.
+export async function createGoal(input: GoalInput, user: ContributionUser): Promise<MutationOutcome<Goal>> {
+  const db = getDb();
+  const { jointAccountId, name, targetAmount, currentAmount = 0, currency, deadline } = input;
+
+  if (!jointAccountId || !name || !targetAmount) {
+    return { ok: false, status: 400, error: 'Missing required fields: jointAccountId, name, targetAmount' };
+  }
+  if (input.id !== undefined && !isClientId(input.id)) {
+    return { ok: false, status: 400, error: 'id must be a UUID' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  if (input.id) {
+    const existing = await db.collection<Goal>('goals').findOne({ id: input.id });
+    if (existing) {
+      return existing.jointAccountId === jointAccountId
+        ? { ok: true, status: 200, data: existing }
+        : { ok: false, status: 409, error: 'id is already in use' };
+    }
+  }
+
+  const now = new Date();
+  const goal: Goal = {
+    id: input.id || crypto.randomUUID(),
+    jointAccountId,
+    name,
+    targetAmount: Number(targetAmount),
+    currentAmount: Number(currentAmount),
+    currency: currency || ('USD' as Goal['currency']),
+    deadline,
+    version: 1,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    await db.collection<Goal>('goals').insertOne(goal);
+  } catch (error: any) {
+    // The same client ID raced in from another request
+    if (error?.code !== 11000) throw error;
+    const existing = await db.collection<Goal>('goals').findOne({ id: goal.id });
+    return existing?.jointAccountId === jointAccountId
+      ? { ok: true, status: 200, data: existing }
+      : { ok: false, status: 409, error: 'id is already in use' };
+  }
+  await recordOpeningBalance(goal, user);
+  await recordAudit({
+    jointAccountId,
+    entity: 'goal',
+    entityId: goal.id,
+    action: AuditAction.CREATE,
+    actor: user,
+    after: goal
+  });
+
+  // Notify other members about new goal
+  const iconUrl = process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/icon-192.png` : 'https://money-flow-six.vercel.app/icon-192.png';
+  notifyJointAccountMembers(jointAccountId, user.id, {
+    title: `🎯 ${user.name || 'Someone'} created a goal`,
+    body: `"${name}" with target of ${goal.currency} ${goal.targetAmount.toLocaleString()}`,
+    icon: iconUrl,
+    tag: `goal-created-${goal.id}`,
+    data: { type: 'goal', goalId: goal.id, jointAccountId, url: '/goals' }
+  }).catch(err => console.error('Goal notification error:', err));
+
+  // Emit real-time update to joint account members
+  await publishToJointAccount(jointAccountId, SocketEvents.GOAL_CREATED, goal);
+
+  return { ok: true, status: 201, data: goal };
+}
+
+// Update a goal. With baseVersion set, the update only applies if nobody edited the goal since
+// that version. Setting currentAmount records the difference as a contribution.
+export async function updateGoal(
+  goalId: string,
+  input: GoalInput,
+  user: ContributionUser,
+  baseVersion?: number
+): Promise<MutationOutcome<Goal>> {
+  const db = getDb();
+  const { name, targetAmount, currentAmount, currency, deadline } = input;
+
+  const goal = await db.collection<Goal>('goals').findOne({ id: goalId });
+
+  if (!goal) {
+    return { ok: false, status: 404, error: 'Goal not found' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(goal.jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  if (baseVersion !== undefined && baseVersion !== currentVersion(goal)) {
+    return { ok: false, status: 409, error: 'This goal was changed by someone else', current: goal };
+  }
+
+  const updateData: Partial<Goal> = { updatedAt: new Date(), version: currentVersion(goal) + 1 };
+  if (name !== undefined) updateData.name = name;
+  if (targetAmount !== undefined) updateData.targetAmount = Number(targetAmount);
+  if (currency) updateData.currency = currency;
+  if (deadline !== undefined) updateData.deadline = deadline;
+
+  // currentAmount comes from the ledger - setting it directly records the difference as a contribution.
+  // It's validated here and saved in the same versioned update, so a rejected adjustment writes nothing.
+  let adjustment: GoalContribution | undefined;
+  if (currentAmount !== undefined) {
+    const amount = Math.round(Number(currentAmount) * 100) / 100;
+    if (!Number.isFinite(amount) || amount < 0) {
+      return { ok: false, status: 400, error: 'currentAmount must be zero or a positive number' };
+    }
+    const difference = Math.round((amount - goal.currentAmount) * 100) / 100;
+    if (difference !== 0) {
+      const prepared = await prepareContribution(
+        goal,
+        {
+          type: difference > 0 ? GoalContributionType.DEPOSIT : GoalContributionType.WITHDRAWAL,
+          amount: Math.abs(difference),
+          note: 'Balance adjustment'
+        },
+        user
+      );
+      if (!prepared.contribution) {
+        return { ok: false, status: 400, error: prepared.error! };
+      }
+      adjustment = prepared.contribution;
+      updateData.currentAmount = amount;
+    }
+  }
+
+  const result = await db.collection<Goal>('goals').updateOne(
+    { id: goalId, ...versionFilter(currentVersion(goal)) },
+    { $set: updateData }
+  );
+
+  const updated = await db.collection<Goal>('goals').findOne({ id: goalId });
+
+  if (!updated) {
+    return { ok: false, status: 404, error: 'Goal not found' };
+  }
+  if (result.matchedCount === 0) {
+    return { ok: false, status: 409, error: 'This goal was changed by someone else', current: updated };
+  }
+
+  if (adjustment) {
+    try {
+      await db.collection<GoalContribution>('goalContributions').insertOne(adjustment);
+    } catch (error) {
+      await applyToGoal(goalId, -signedContribution(adjustment));
+      throw error;
+    }
+  }
+
+  await recordAudit({
+    jointAccountId: goal.jointAccountId,
+    entity: 'goal',
+    entityId: goalId,
+    action: AuditAction.UPDATE,
+    actor: user,
+    before: goal,
+    after: updated,
+    ...(adjustment && { note: 'Balance adjustment' })
+  });
+
+  if (adjustment) {
+    await publishToJointAccount(goal.jointAccountId, SocketEvents.GOAL_CONTRIBUTION_ADDED, { contribution: adjustment, goal: updated });
+    notifyGoalProgress(updated, goal.currentAmount, user);
+  }
+
+  // Emit real-time update to joint account members
+  await publishToJointAccount(goal.jointAccountId, SocketEvents.GOAL_UPDATED, updated);
+
+  return { ok: true, status: 200, data: updated };
+}
+
+// Delete a goal with its contributions and auto-save rules (restorable from the trash),
+// optionally only if it's still at baseVersion
+export async function deleteGoal(goalId: string, user: ContributionUser, baseVersion?: number): Promise<MutationOutcome<Goal>> {
+  const db = getDb();
+
+  const goal = await db.collection<Goal>('goals').findOne({ id: goalId });
+
+  if (!goal) {
+    return { ok: false, status: 404, error: 'Goal not found' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(goal.jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  // The goal goes to the trash with its contributions and auto-save rules
+  const trashed = await deleteToTrash<Goal>(
+    'goal',
+    { id: goalId, ...(baseVersion !== undefined && versionFilter(baseVersion)) },
+    user,
+    async () => {
+      const [contributions, rules] = await Promise.all([
+        db.collection<GoalContribution>('goalContributions').find({ goalId }).toArray(),
+        db.collection<AutoSaveRule>('autoSaveRules').find({ goalId }).toArray()
+      ]);
+      return { related: { goalContributions: contributions, autoSaveRules: rules } };
+    }
+  );
+  if (!trashed) {
+    const current = await db.collection<Goal>('goals').findOne({ id: goalId });
+    return current
+      ? { ok: false, status: 409, error: 'This goal was changed by someone else', current }
+      : { ok: false, status: 404, error: 'Goal not found' };
+  }
+  await db.collection<GoalContribution>('goalContributions').deleteMany({ goalId });
+  await db.collection<AutoSaveRule>('autoSaveRules').deleteMany({ goalId });
+
+  await recordAudit({
+    jointAccountId: goal.jointAccountId,
+    entity: 'goal',
+    entityId: goalId,
+    action: AuditAction.DELETE,
+    actor: user,
+    before: trashed.record
+  });
+
+  // Emit real-time update to joint account members
+  await publishToJointAccount(goal.jointAccountId, SocketEvents.GOAL_DELETED, {
+    goalId,
+    jointAccountId: goal.jointAccountId,
+    trashId: trashed.item.id
+  });
+
+  return { ok: true, status: 200, data: trashed.record };
+}
+
+// Goals saved before contributions existed get their currentAmount as an opening balance
+export async function initializeGoalLedger(): Promise<void> {
+  const db = getDb();
+  const goals = await db.collection<Goal>('goals').find({ currentAmount: { $ne: 0 } }).toArray();
+
+  for (const goal of goals) {
+    const hasLedger = await db.collection<GoalContribution>('goalContributions').countDocuments({ goalId: goal.id }, { limit: 1 });
+    if (!hasLedger) await recordOpeningBalance(goal, { id: 'system', name: 'FlowMoney' });
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function ratesFromDaily(daily: number): { daily: number; weekly: number; monthly: number } {
+  return { daily: round2(daily), weekly: round2(daily * 7), monthly: round2(daily * AVERAGE_DAYS_PER_MONTH) };
+}
+
+// Deterministic status: on track when the current rate meets the required one, at risk when
+// the account's surplus could still cover it, unrealistic when even that isn't enough
+export function classifyGoal(
+  remainingAmount: number,
+  daysLeft: number | null,
+  savingsPerDay: number,
+  surplusPerDay: number
+): GoalStatus {
+  if (remainingAmount <= 0) return 'ON_TRACK';
+  if (daysLeft === null) return savingsPerDay > 0 ? 'ON_TRACK' : 'AT_RISK';
+  if (daysLeft <= 0) return 'UNREALISTIC';
+
+  const requiredPerDay = remainingAmount / daysLeft;
+  if (savingsPerDay >= requiredPerDay) return 'ON_TRACK';
+  if (Math.max(savingsPerDay, surplusPerDay) >= requiredPerDay) return 'AT_RISK';
+  return 'UNREALISTIC';
+}
+
+// Estimate when a goal will be reached and what it takes to meet its deadline
+export async function computeGoalProjection(goal: Goal, today: string = todayISO()): Promise<GoalProjection> {
+  const db = getDb();
+  const since = addDaysISO(today, -PROJECTION_WINDOW_DAYS);
+
+  const [contributions, transactions] = await Promise.all([
+    db.collection<GoalContribution>('goalContributions')
+      .find({ goalId: goal.id, date: { $gte: since, $lte: today }, openingBalance: { $ne: true } })
+      .toArray(),
+    db.collection<Transaction>('transactions')
+      .find({ jointAccountId: goal.jointAccountId, date: { $gte: since } })
+      .toArray()
+  ]);
+
+  // Average over the time the goal has existed, up to the window, so a new goal isn't judged on 90 days
+  const createdOn = (goal.createdAt instanceof Date ? goal.createdAt.toISOString() : String(goal.createdAt)).slice(0, 10);
+  const windowDays = Math.max(1, Math.min(PROJECTION_WINDOW_DAYS, daysBetween(createdOn, today)));
+  const contributionsPerDay = contributions.reduce((sum, c) => sum + signedContribution(c), 0) / windowDays;
+
+  // Surplus over the whole window, in the goal's currency (amounts without a rate are left out)
+  const converter = createCurrencyConverter(goal.currency);
+  let surplus = 0;
+  for (const t of transactions) {
+    const amount = (await converter.convert(t.amount, t.currency || goal.currency, t.date)) ?? 0;
+    surplus += t.type === TransactionType.INCOME ? amount : -amount;
+  }
+  const surplusPerDay = Math.max(0, surplus / PROJECTION_WINDOW_DAYS);
+
+  const fromContributions = contributions.length >= MIN_PROJECTION_CONTRIBUTIONS;
+  const savingsPerDay = Math.max(0, fromContributions ? contributionsPerDay : surplusPerDay);
+
+  const remainingAmount = round2(Math.max(0, goal.targetAmount - goal.currentAmount));
+  const daysLeft = goal.deadline ? daysBetween(today, goal.deadline) : null;
+
+  let estimatedCompletionDate: string | null = null;
+  if (remainingAmount === 0) estimatedCompletionDate = today;
+  else if (savingsPerDay > 0) estimatedCompletionDate = addDaysISO(today, Math.ceil(remainingAmount / savingsPerDay));
+
+  return {
+    goalId: goal.id,
+    currency: goal.currency,
+    targetAmount: goal.targetAmount,
+    currentAmount: goal.currentAmount,
+    remainingAmount,
+    rateSource: fromContributions ? 'CONTRIBUTIONS' : 'ACCOUNT_SURPLUS',
+    savingsRate: ratesFromDaily(savingsPerDay),
+    accountSurplus: ratesFromDaily(surplusPerDay),
+    estimatedCompletionDate,
+    deadline: goal.deadline || null,
+    daysLeft,
+    requiredRate: daysLeft === null ? null : ratesFromDaily(daysLeft > 0 ? remainingAmount / daysLeft : remainingAmount),
+    status: classifyGoal(remainingAmount, daysLeft, savingsPerDay, surplusPerDay)
+  };
+}
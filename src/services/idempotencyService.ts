@@ -0,0 +1,46 @@
+import { getDb } from '../config/database.js';
+import { IdempotencyRecord } from '../types/index.js';
+
+export type IdempotencyClaim =
+  | { state: 'CLAIMED' } // First use - run the request, then complete or release the key
+  | { state: 'DONE'; record: IdempotencyRecord } // Already handled - replay the stored result
+  | { state: 'IN_PROGRESS' } // Another request with this key is still running
+  | { state: 'MISMATCH' }; // Key was used for a different request
+
+// Claim an idempotency key for a user. Inserting the record is the claim, so two
+// concurrent requests with the same key can't both run.
+export async function claimIdempotencyKey(userId: string, key: string, scope: string): Promise<IdempotencyClaim> {
+  const db = getDb();
+  try {
+    await db.collection<IdempotencyRecord>('idempotencyKeys').insertOne({
+      userId,
+      key,
+      scope,
+      state: 'PENDING',
+      createdAt: new Date()
+    });
+    return { state: 'CLAIMED' };
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+  }
+
+  const record = await db.collection<IdempotencyRecord>('idempotencyKeys').findOne({ userId, key });
+  // Released between our insert and read - let the client retry
+  if (!record) return { state: 'IN_PROGRESS' };
+  if (record.scope !== scope) return { state: 'MISMATCH' };
+  if (record.state === 'PENDING') return { state: 'IN_PROGRESS' };
+  return { state: 'DONE', record };
+}
+
+// Store the result of a claimed key so retries get the same answer
+export async function completeIdempotencyKey(userId: string, key: string, statusCode: number, body: unknown): Promise<void> {
+  await getDb().collection<IdempotencyRecord>('idempotencyKeys').updateOne(
+    { userId, key, state: 'PENDING' },
+    { $set: { state: 'DONE', statusCode, body } }
+  );
+}
+
+// Give a claimed key back (e.g. the request failed with a server error) so it can be retried
+export async function releaseIdempotencyKey(userId: string, key: string): Promise<void> {
+  await getDb().collection<IdempotencyRecord>('idempotencyKeys').deleteOne({ userId, key, state: 'PENDING' });
+}
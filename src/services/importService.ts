@@ -0,0 +1,237 @@
+import { getDb } from '../config/database.js';
+import {
+  AuditAction,
+  Transaction,
+  TransactionType,
+  Currency,
+  SignConvention,
+  ImportColumnMapping,
+  ImportMappingProfile,
+  ImportParseResult,
+  ImportRow,
+  StatementFormat
+} from '../types/index.js';
+import { detectStatementFormat, parseStatement } from '../parsers/index.js';
+import { recordAudit } from './auditService.js';
+
+export interface ImportSummary {
+  count: number;
+  totalIncome: number;
+  totalExpense: number;
+  firstDate?: string;
+  lastDate?: string;
+}
+
+const DEFAULT_MAPPING: Partial<ImportColumnMapping> = {
+  delimiter: ',',
+  hasHeader: true,
+  dateFormat: 'YYYY-MM-DD',
+  signConvention: SignConvention.NEGATIVE_IS_EXPENSE,
+  decimalSeparator: '.'
+};
+
+const MAPPING_FIELDS: Array<keyof ImportColumnMapping> = [
+  'delimiter', 'hasHeader', 'dateColumn', 'dateFormat', 'amountColumn', 'debitColumn',
+  'creditColumn', 'signConvention', 'decimalSeparator', 'noteColumn', 'categoryColumn',
+  'defaultCategory', 'currency'
+];
+
+function copyMappingField<K extends keyof ImportColumnMapping>(
+  mapping: ImportColumnMapping,
+  input: Record<string, unknown>,
+  key: K
+): void {
+  const value = input[key];
+  if (value !== undefined && value !== null) {
+    mapping[key] = value as ImportColumnMapping[K];
+  }
+}
+
+// Fill in defaults and validate a mapping sent by the client or loaded from a profile
+export function normalizeMapping(input: any): { mapping?: ImportColumnMapping; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Column mapping is required' };
+  }
+
+  // Only keep known mapping fields so arbitrary body keys never reach saved profiles
+  const mapping = { ...DEFAULT_MAPPING } as ImportColumnMapping;
+  for (const key of MAPPING_FIELDS) {
+    copyMappingField(mapping, input, key);
+  }
+
+  if (mapping.dateColumn === undefined || mapping.dateColumn === '') {
+    return { error: 'Mapping must include dateColumn' };
+  }
+
+  if (!Object.values(SignConvention).includes(mapping.signConvention)) {
+    return { error: `Invalid signConvention. Use one of: ${Object.values(SignConvention).join(', ')}` };
+  }
+
+  if (mapping.signConvention === SignConvention.SEPARATE_COLUMNS) {
+    if (mapping.debitColumn === undefined && mapping.creditColumn === undefined) {
+      return { error: 'Mapping must include debitColumn and/or creditColumn for SEPARATE_COLUMNS' };
+    }
+  } else if (mapping.amountColumn === undefined || mapping.amountColumn === '') {
+    return { error: 'Mapping must include amountColumn' };
+  }
+
+  if (!/YYYY/.test(mapping.dateFormat) || !/MM/.test(mapping.dateFormat) || !/DD/.test(mapping.dateFormat)) {
+    return { error: 'dateFormat must contain YYYY, MM and DD (e.g. DD/MM/YYYY)' };
+  }
+
+  if (mapping.decimalSeparator !== '.' && mapping.decimalSeparator !== ',') {
+    return { error: 'decimalSeparator must be "." or ","' };
+  }
+
+  return { mapping };
+}
+
+export function summarizeImport(rows: Array<Pick<ImportRow, 'date' | 'amount' | 'type'>>): ImportSummary {
+  const dates = rows.map(r => r.date).sort();
+  return {
+    count: rows.length,
+    totalIncome: rows.filter(r => r.type === TransactionType.INCOME).reduce((sum, r) => sum + r.amount, 0),
+    totalExpense: rows.filter(r => r.type === TransactionType.EXPENSE).reduce((sum, r) => sum + r.amount, 0),
+    firstDate: dates[0],
+    lastDate: dates[dates.length - 1]
+  };
+}
+
+// Flag rows whose externalId was already imported into the account (or repeats earlier in the same file)
+export async function markDuplicateRows(jointAccountId: string, rows: ImportRow[]): Promise<ImportRow[]> {
+  const externalIds = rows.map(r => r.externalId).filter((id): id is string => !!id);
+  if (externalIds.length === 0) return rows;
+
+  const db = getDb();
+  const existing = await db.collection<Transaction>('transactions')
+    .find({ jointAccountId, externalId: { $in: externalIds } }, { projection: { externalId: 1 } })
+    .toArray();
+
+  const seen = new Set(existing.map(t => t.externalId));
+
+  return rows.map(row => {
+    if (!row.externalId) return row;
+    const duplicate = seen.has(row.externalId);
+    seen.add(row.externalId);
+    return { ...row, duplicate };
+  });
+}
+
+// One audit entry per imported transaction
+async function auditImport(transactions: Transaction[], user: { id: string; name: string }): Promise<void> {
+  await recordAudit(...transactions.map(transaction => ({
+    jointAccountId: transaction.jointAccountId,
+    entity: 'transaction' as const,
+    entityId: transaction.id,
+    action: AuditAction.CREATE,
+    actor: user,
+    after: transaction,
+    note: `Imported from ${transaction.importSource}`
+  })));
+}
+
+// Save import rows as transactions for a joint account, skipping already imported entries
+export async function commitImportRows(
+  jointAccountId: string,
+  user: { id: string; name: string },
+  rows: ImportRow[],
+  defaultCurrency: Currency | string,
+  importSource: StatementFormat
+): Promise<{ transactions: Transaction[]; duplicates: number }> {
+  const checked = await markDuplicateRows(jointAccountId, rows);
+  const fresh = checked.filter(row => !row.duplicate);
+
+  if (fresh.length === 0) {
+    return { transactions: [], duplicates: checked.length };
+  }
+
+  const db = getDb();
+  const now = new Date();
+
+  const transactions: Transaction[] = fresh.map(row => ({
+    id: crypto.randomUUID(),
+    jointAccountId,
+    amount: row.amount,
+    currency: row.currency || (defaultCurrency as Currency),
+    type: row.type,
+    category: row.category,
+    date: row.date,
+    valueDate: row.valueDate,
+    note: row.note,
+    addedByUserId: user.id,
+    addedByUserName: user.name,
+    ...(row.externalId && { externalId: row.externalId }),
+    importSource,
+    createdAt: now,
+    updatedAt: now
+  }));
+
+  try {
+    await db.collection<Transaction>('transactions').insertMany(transactions, { ordered: false });
+  } catch (error: any) {
+    // A concurrent import of the same file can still hit the unique externalId index -
+    // keep whatever was inserted and drop the rest as duplicates
+    if (error?.code !== 11000 || !error.insertedIds) throw error;
+    const insertedIndexes = new Set(Object.keys(error.insertedIds).map(Number));
+    const inserted = transactions.filter((_, i) => insertedIndexes.has(i));
+    await auditImport(inserted, user);
+    return { transactions: inserted, duplicates: checked.length - inserted.length };
+  }
+
+  await auditImport(transactions, user);
+  return { transactions, duplicates: checked.length - fresh.length };
+}
+
+// Resolve the mapping for a request: a saved profile (by profileId) or an inline mapping
+export async function resolveImportMapping(
+  jointAccountId: string,
+  profileId?: string,
+  inlineMapping?: unknown
+): Promise<{ mapping?: ImportColumnMapping; error?: string }> {
+  if (profileId) {
+    const db = getDb();
+    const profile = await db.collection<ImportMappingProfile>('importProfiles')
+      .findOne({ id: profileId, jointAccountId });
+
+    if (!profile) {
+      return { error: 'Import profile not found' };
+    }
+
+    return normalizeMapping(profile);
+  }
+
+  return normalizeMapping(inlineMapping);
+}
+
+// Parse the statement in an import request body (content, format, profileId / mapping, dateFormat, defaultCategory)
+export async function parseImportRequest(
+  jointAccountId: string,
+  body: any
+): Promise<{ format?: StatementFormat; result?: ImportParseResult; mapping?: ImportColumnMapping; error?: string }> {
+  const { content, profileId, mapping: inlineMapping, dateFormat, defaultCategory } = body;
+
+  if (!content || typeof content !== 'string') {
+    return { error: 'Statement content is required' };
+  }
+
+  const requestedFormat = typeof body.format === 'string' ? body.format.toUpperCase() : undefined;
+  if (requestedFormat && !Object.values(StatementFormat).includes(requestedFormat)) {
+    return { error: `Invalid format. Use one of: ${Object.values(StatementFormat).join(', ')}` };
+  }
+
+  const format = (requestedFormat as StatementFormat) || detectStatementFormat(content);
+
+  let mapping: ImportColumnMapping | undefined;
+  if (format === StatementFormat.CSV) {
+    const resolved = await resolveImportMapping(jointAccountId, profileId, inlineMapping);
+    if (!resolved.mapping) {
+      return { error: resolved.error };
+    }
+    mapping = resolved.mapping;
+  }
+
+  const result = parseStatement(content, format, { mapping, dateFormat, defaultCategory });
+  result.rows = await markDuplicateRows(jointAccountId, result.rows);
+
+  return { format, result, mapping };
+}
@@ -0,0 +1,65 @@
+import { ClientSession } from 'mongodb';
+import { getClient, getDb } from '../config/database.js';
+import { JointAccount } from '../types/index.js';
+
+// Every collection that stores joint account data by jointAccountId
+const JOINT_ACCOUNT_COLLECTIONS = [
+  'jointAccountMembers',
+  'jointAccountInvites',
+  'transactions',
+  'importProfiles',
+  'recurringRules',
+  'goals',
+  'goalContributions',
+  'autoSaveRules',
+  'subscriptions',
+  'subscriptionCharges',
+  'subscriptionReminders',
+  'subscriptionPriceChanges',
+  'subscriptionProposals',
+  'budgets',
+  'envelopes',
+  'envelopeAllocations',
+  'envelopeTransfers',
+  'customCategories',
+  'trash',
+  'auditLog',
+  'changeLog',
+  'changeLogCounters'
+];
+
+async function deleteAccountDocuments(jointAccountId: string, session?: ClientSession): Promise<Record<string, number>> {
+  const db = getDb();
+  const deleted: Record<string, number> = {};
+
+  for (const collection of JOINT_ACCOUNT_COLLECTIONS) {
+    const result = await db.collection(collection).deleteMany({ jointAccountId }, { session });
+    if (result.deletedCount > 0) deleted[collection] = result.deletedCount;
+  }
+  // The account goes last, so a failed run can simply be repeated
+  await db.collection<JointAccount>('jointAccounts').deleteOne({ id: jointAccountId }, { session });
+
+  return deleted;
+}
+
+// Delete a joint account and everything stored for it, in one MongoDB transaction so it's
+// either all gone or all still there. Standalone servers (local development) don't support
+// transactions; there the collections are cleared one by one instead.
+// Returns how many documents were removed per collection.
+export async function deleteJointAccountCascade(jointAccountId: string): Promise<Record<string, number>> {
+  const session = getClient().startSession();
+  try {
+    let deleted: Record<string, number> = {};
+    await session.withTransaction(async () => {
+      deleted = await deleteAccountDocuments(jointAccountId, session);
+    });
+    return deleted;
+  } catch (error: any) {
+    // IllegalOperation: "Transaction numbers are only allowed on a replica set member or mongos"
+    if (error?.code !== 20) throw error;
+    console.warn('⚠️ MongoDB transactions unavailable, deleting joint account data without one');
+    return deleteAccountDocuments(jointAccountId);
+  } finally {
+    await session.endSession();
+  }
+}
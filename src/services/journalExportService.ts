@@ -0,0 +1,205 @@
+import { getDb } from '../config/database.js';
+import {
+  Transaction,
+  TransactionType,
+  Subscription,
+  CustomCategory,
+  JointAccount,
+  SubscriptionStatus
+} from '../types/index.js';
+import { cycleLength, describeCycle } from '../utils/billing.js';
+
+export type JournalFlavor = 'ledger' | 'hledger' | 'beancount';
+
+export const JOURNAL_FLAVORS: JournalFlavor[] = ['ledger', 'hledger', 'beancount'];
+
+export const JOURNAL_FILE_EXTENSIONS: Record<JournalFlavor, string> = {
+  ledger: 'ledger',
+  hledger: 'journal',
+  beancount: 'beancount'
+};
+
+// Turn a free-text name into one account path component.
+// Beancount is strict (capitalized, letters/digits/dashes only); Ledger and hledger only
+// forbid colons and double spaces, but we keep both flavors close so journals diff cleanly.
+function accountComponent(name: string, flavor: JournalFlavor): string {
+  const words = name
+    .replace(/[:;]/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(w => w.charAt(0).toUpperCase() + w.slice(1));
+
+  if (words.length === 0) return 'Other';
+
+  if (flavor === 'beancount') {
+    const component = words.join('-').replace(/[^A-Za-z0-9-]/g, '');
+    // Beancount components must start with a capital letter or a digit
+    return /^[A-Z0-9]/.test(component) ? component : `X${component}`;
+  }
+
+  return words.join(' ');
+}
+
+function categoryAccount(category: string, type: TransactionType, flavor: JournalFlavor): string {
+  const root = type === TransactionType.INCOME ? 'Income' : 'Expenses';
+  return `${root}:${accountComponent(category, flavor)}`;
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s+/g, ' ')}"`;
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+// Ledger / hledger period expression for a subscription cycle
+function periodExpression(s: Subscription): string {
+  const { every, unit } = cycleLength(s);
+  if (unit === 'days') {
+    if (every === 7) return 'weekly';
+    if (every === 14) return 'biweekly';
+    return `every ${every} days`;
+  }
+  if (every === 1) return 'monthly';
+  if (every === 3) return 'quarterly';
+  if (every === 12) return 'yearly';
+  return `every ${every} months`;
+}
+
+function transactionDescription(t: Transaction): string {
+  return oneLine(t.note || t.category || 'Transaction');
+}
+
+function renderBeancount(
+  account: JointAccount,
+  assetAccount: string,
+  transactions: Transaction[],
+  subscriptions: Subscription[],
+  customCategories: CustomCategory[]
+): string[] {
+  const lines: string[] = [];
+  const flavor: JournalFlavor = 'beancount';
+
+  lines.push(`option "title" ${quote(account.name)}`);
+  lines.push(`option "operating_currency" "${account.primaryCurrency}"`);
+  lines.push('');
+
+  // Every account must be opened before it is used - open them all on the earliest date
+  const openDate = [...transactions.map(t => t.date), ...subscriptions.map(s => s.nextBillingDate)]
+    .map(date => date.slice(0, 10))
+    .sort()[0] || new Date().toISOString().split('T')[0];
+
+  const accounts = new Set<string>([assetAccount]);
+  transactions.forEach(t => accounts.add(categoryAccount(String(t.category), t.type, flavor)));
+  customCategories.forEach(c => accounts.add(categoryAccount(c.name, TransactionType.EXPENSE, flavor)));
+  if (subscriptions.length > 0) accounts.add('Expenses:Subscriptions');
+
+  Array.from(accounts).sort().forEach(name => lines.push(`${openDate} open ${name}`));
+  lines.push('');
+
+  for (const t of transactions) {
+    const signed = t.type === TransactionType.INCOME ? -t.amount : t.amount;
+    lines.push(`${t.date.slice(0, 10)} * ${quote(transactionDescription(t))}`);
+    lines.push(`  added_by_user_id: ${quote(t.addedByUserId)}`);
+    lines.push(`  added_by: ${quote(t.addedByUserName)}`);
+    lines.push(`  transaction_id: ${quote(t.id)}`);
+    lines.push(`  ${categoryAccount(String(t.category), t.type, flavor)}  ${formatAmount(signed, t.currency)}`);
+    lines.push(`  ${assetAccount}`);
+    lines.push('');
+  }
+
+  // Beancount has no periodic transactions - record subscriptions as custom directives
+  for (const s of subscriptions) {
+    lines.push(`${s.nextBillingDate.slice(0, 10)} custom "subscription" ${quote(s.name)} ${formatAmount(s.amount, s.currency)} ${quote(describeCycle(s))}`);
+  }
+
+  return lines;
+}
+
+function renderLedger(
+  account: JointAccount,
+  assetAccount: string,
+  transactions: Transaction[],
+  subscriptions: Subscription[],
+  customCategories: CustomCategory[],
+  flavor: 'ledger' | 'hledger'
+): string[] {
+  const lines: string[] = [];
+
+  lines.push(`; ${account.name} - exported from FlowMoney`);
+  lines.push('');
+
+  const accounts = new Set<string>([assetAccount]);
+  transactions.forEach(t => accounts.add(categoryAccount(String(t.category), t.type, flavor)));
+  customCategories.forEach(c => accounts.add(categoryAccount(c.name, TransactionType.EXPENSE, flavor)));
+  if (subscriptions.length > 0) accounts.add('Expenses:Subscriptions');
+
+  Array.from(accounts).sort().forEach(name => lines.push(`account ${name}`));
+  lines.push('');
+
+  for (const t of transactions) {
+    const signed = t.type === TransactionType.INCOME ? -t.amount : t.amount;
+    lines.push(`${t.date.slice(0, 10)} * ${transactionDescription(t)}`);
+    // "; key: value" is a metadata tag in Ledger and a tag in hledger
+    lines.push(`    ; addedByUserId: ${t.addedByUserId}`);
+    lines.push(`    ; addedBy: ${oneLine(t.addedByUserName)}`);
+    lines.push(`    ; transactionId: ${t.id}`);
+    lines.push(`    ${categoryAccount(String(t.category), t.type, flavor)}  ${formatAmount(signed, t.currency)}`);
+    lines.push(`    ${assetAccount}`);
+    lines.push('');
+  }
+
+  // Subscriptions become periodic transactions (forecast / budget rules)
+  for (const s of subscriptions) {
+    const period = periodExpression(s);
+    if (flavor === 'hledger') {
+      lines.push(`~ ${period} from ${s.nextBillingDate.slice(0, 10)}  ${oneLine(s.name)}`);
+    } else {
+      lines.push(`~ ${period.charAt(0).toUpperCase()}${period.slice(1)}`);
+      lines.push(`    ; subscription: ${oneLine(s.name)}`);
+    }
+    lines.push(`    Expenses:Subscriptions  ${formatAmount(s.amount, s.currency)}`);
+    lines.push(`    ${assetAccount}`);
+    lines.push('');
+  }
+
+  return lines;
+}
+
+// Render a joint account's transactions, categories and subscriptions as a plain-text journal
+export async function buildJournalExport(
+  account: JointAccount,
+  transactionFilter: Record<string, any>,
+  flavor: JournalFlavor
+): Promise<string> {
+  const db = getDb();
+
+  const [transactions, subscriptions, customCategories] = await Promise.all([
+    db.collection<Transaction>('transactions')
+      .find(transactionFilter)
+      .sort({ date: 1, createdAt: 1 })
+      .toArray(),
+    // Only subscriptions that are still being paid are forecast
+    db.collection<Subscription>('subscriptions')
+      .find({ jointAccountId: account.id, status: { $nin: [SubscriptionStatus.PAUSED, SubscriptionStatus.CANCELLED] } })
+      .sort({ name: 1 })
+      .toArray(),
+    db.collection<CustomCategory>('customCategories')
+      .find({ jointAccountId: account.id })
+      .sort({ name: 1 })
+      .toArray()
+  ]);
+
+  const assetAccount = `Assets:${accountComponent(account.name, flavor)}`;
+
+  const lines = flavor === 'beancount'
+    ? renderBeancount(account, assetAccount, transactions, subscriptions, customCategories)
+    : renderLedger(account, assetAccount, transactions, subscriptions, customCategories, flavor);
+
+  return lines.join('\n').trimEnd() + '\n';
+}
@@ -0,0 +1,146 @@
+import { getDb } from '../config/database.js';
+import { MutationOutcome, MutationReport, QueuedMutation } from '../types/index.js';
+import { createTransaction, deleteTransaction, updateTransaction } from './transactionService.js';
+import { createGoal, deleteGoal, updateGoal } from './goalService.js';
+import { createSubscription, deleteSubscription, updateSubscription } from './subscriptionService.js';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from './idempotencyService.js';
+import { isClientId, parseBaseVersion } from '../utils/mutations.js';
+
+// Mutations accepted per batch
+export const MAX_BATCH_MUTATIONS = 100;
+
+const ENTITIES: QueuedMutation['entity'][] = ['transaction', 'goal', 'subscription'];
+const ACTIONS: QueuedMutation['action'][] = ['create', 'update', 'delete'];
+
+const COLLECTIONS: Record<QueuedMutation['entity'], string> = {
+  transaction: 'transactions',
+  goal: 'goals',
+  subscription: 'subscriptions'
+};
+
+const MUTATIONS = {
+  transaction: { create: createTransaction, update: updateTransaction, remove: deleteTransaction },
+  goal: { create: createGoal, update: updateGoal, remove: deleteGoal },
+  subscription: { create: createSubscription, update: updateSubscription, remove: deleteSubscription }
+};
+
+interface MutationUser {
+  id: string;
+  name: string;
+}
+
+// Check the shape of one queued mutation; returns an error message or null
+function validateMutation(mutation: any): string | null {
+  if (!mutation || typeof mutation !== 'object') return 'Mutation must be an object';
+  if (typeof mutation.idempotencyKey !== 'string' || !mutation.idempotencyKey || mutation.idempotencyKey.length > 255) {
+    return 'idempotencyKey is required (at most 255 characters)';
+  }
+  if (!ENTITIES.includes(mutation.entity)) return `entity must be one of: ${ENTITIES.join(', ')}`;
+  if (!ACTIONS.includes(mutation.action)) return `action must be one of: ${ACTIONS.join(', ')}`;
+  if (!isClientId(mutation.id)) return 'id must be a UUID';
+  if (mutation.data !== undefined && (typeof mutation.data !== 'object' || mutation.data === null)) {
+    return 'data must be an object';
+  }
+  if (parseBaseVersion(mutation.baseVersion) === null) return 'baseVersion must be a positive integer';
+  return null;
+}
+
+// Report for a mutation that was turned away before running
+function rejected(mutation: Partial<QueuedMutation>, status: number, error: string): MutationReport {
+  return {
+    idempotencyKey: mutation.idempotencyKey!,
+    entity: mutation.entity!,
+    action: mutation.action!,
+    id: mutation.id!,
+    result: 'REJECTED',
+    status,
+    error
+  };
+}
+
+function toReport(mutation: QueuedMutation, outcome: MutationOutcome<unknown>): MutationReport {
+  const base = {
+    idempotencyKey: mutation.idempotencyKey,
+    entity: mutation.entity,
+    action: mutation.action,
+    id: mutation.id,
+    status: outcome.status
+  };
+  if (outcome.ok) {
+    return { ...base, result: 'APPLIED', data: outcome.data };
+  }
+  if (outcome.status === 409 && outcome.current !== undefined) {
+    return { ...base, result: 'CONFLICT', current: outcome.current, error: outcome.error };
+  }
+  return { ...base, result: outcome.status === 404 ? 'NOT_FOUND' : 'REJECTED', error: outcome.error };
+}
+
+// Run one mutation against a joint account
+async function runMutation(jointAccountId: string, mutation: QueuedMutation, user: MutationUser): Promise<MutationOutcome<unknown>> {
+  const handlers = MUTATIONS[mutation.entity];
+  const baseVersion = parseBaseVersion(mutation.baseVersion) ?? undefined;
+
+  if (mutation.action === 'create') {
+    return handlers.create({ ...mutation.data, id: mutation.id, jointAccountId }, user);
+  }
+
+  // Records of other joint accounts are treated as missing
+  const existing = await getDb().collection(COLLECTIONS[mutation.entity])
+    .findOne({ id: mutation.id, jointAccountId }, { projection: { _id: 1 } });
+  if (!existing) {
+    return { ok: false, status: 404, error: 'Not found in this joint account' };
+  }
+
+  return mutation.action === 'update'
+    ? handlers.update(mutation.id, { ...mutation.data }, user, baseVersion)
+    : handlers.remove(mutation.id, user, baseVersion);
+}
+
+// Apply a client's offline queue in order and report what happened to each mutation.
+// Every mutation carries its own idempotency key, so a batch that is sent again (e.g. after a
+// dropped connection) replays the earlier results instead of applying anything twice.
+export async function applyMutationBatch(
+  jointAccountId: string,
+  mutations: QueuedMutation[],
+  user: MutationUser
+): Promise<MutationReport[]> {
+  const reports: MutationReport[] = [];
+
+  for (const mutation of mutations) {
+    const invalid = validateMutation(mutation);
+    if (invalid) {
+      reports.push(rejected(mutation || {}, 400, invalid));
+      continue;
+    }
+
+    const scope = `mutation ${jointAccountId} ${mutation.entity} ${mutation.action} ${mutation.id}`;
+    const claim = await claimIdempotencyKey(user.id, mutation.idempotencyKey, scope);
+
+    if (claim.state === 'DONE') {
+      reports.push({ ...(claim.record.body as MutationReport), replayed: true });
+      continue;
+    }
+    if (claim.state !== 'CLAIMED') {
+      reports.push(claim.state === 'MISMATCH'
+        ? rejected(mutation, 422, 'This idempotencyKey was already used for a different mutation')
+        : rejected(mutation, 409, 'This mutation is still being processed'));
+      continue;
+    }
+
+    try {
+      const report = toReport(mutation, await runMutation(jointAccountId, mutation, user));
+      await completeIdempotencyKey(user.id, mutation.idempotencyKey, report.status, report);
+      reports.push(report);
+    } catch (error) {
+      console.error(`Failed to apply ${mutation.entity} ${mutation.action} ${mutation.id}:`, error);
+      await releaseIdempotencyKey(user.id, mutation.idempotencyKey).catch(() => {});
+      reports.push(rejected(mutation, 500, 'Failed to apply mutation'));
+    }
+  }
+
+  return reports;
+}
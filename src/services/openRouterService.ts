@@ -158,7 +158,7 @@ Return ONLY valid JSON:
       "name": "service name",
       "amount": number,
       "currency": "string",
-      "cycle": "Monthly" or "Yearly",
+      "cycle": "Weekly", "Biweekly", "Monthly", "Quarterly", "Semiannual" or "Yearly",
       "nextDate": "YYYY-MM-DD"
     }
   ]
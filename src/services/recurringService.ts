@@ -0,0 +1,188 @@
+import { getDb } from '../config/database.js';
+import {
+  AuditAction,
+  BudgetingMode,
+  JointAccount,
+  RecurrenceFrequency,
+  RecurringRule,
+  Transaction,
+  TransactionType
+} from '../types/index.js';
+import { resolveExpenseEnvelope } from './envelopeService.js';
+import { announceNewTransaction } from './transactionService.js';
+import { recordAudit, SYSTEM_ACTOR } from './auditService.js';
+import { addDaysISO, addMonthsISO, todayISO } from '../utils/dates.js';
+
+type RecurringSchedule = Pick<RecurringRule, 'frequency' | 'startDate' | 'endDate' | 'maxOccurrences'>;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Date of the Nth occurrence (0 = startDate). Counting from the start date keeps
+// month-end rules on the 31st instead of drifting to the 28th after February.
+export function occurrenceDate(startDate: string, frequency: RecurrenceFrequency, index: number): string {
+  switch (frequency) {
+    case RecurrenceFrequency.DAILY:
+      return addDaysISO(startDate, index);
+    case RecurrenceFrequency.WEEKLY:
+      return addDaysISO(startDate, index * 7);
+    case RecurrenceFrequency.BIWEEKLY:
+      return addDaysISO(startDate, index * 14);
+    case RecurrenceFrequency.MONTHLY:
+      return addMonthsISO(startDate, index);
+    case RecurrenceFrequency.YEARLY:
+      return addMonthsISO(startDate, index * 12);
+  }
+}
+
+// Date of the Nth occurrence, or null when the rule ends before it
+export function scheduledDate(schedule: RecurringSchedule, index: number): string | null {
+  if (schedule.maxOccurrences != null && index >= schedule.maxOccurrences) return null;
+  const date = occurrenceDate(schedule.startDate, schedule.frequency, index);
+  if (schedule.endDate && date > schedule.endDate) return null;
+  return date;
+}
+
+// First occurrence on or after a date - used so new or rescheduled rules don't backfill the past
+export function firstOccurrenceFrom(schedule: RecurringSchedule, date: string): { index: number; date: string | null } {
+  let index = 0;
+  let next = scheduledDate(schedule, index);
+  while (next !== null && next < date) {
+    index++;
+    next = scheduledDate(schedule, index);
+  }
+  return { index, date: next };
+}
+
+// Next few dates a rule will post on
+export function upcomingOccurrences(rule: RecurringRule, count: number): string[] {
+  const dates: string[] = [];
+  if (!rule.active) return dates;
+
+  for (let index = rule.nextOccurrence; dates.length < count; index++) {
+    const date = scheduledDate(rule, index);
+    if (!date) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Post every occurrence of a rule that is due by `today`.
+// Occurrences already posted (e.g. before a restart, or by another instance) are skipped
+// thanks to the unique { recurringRuleId, date } index.
+export async function postRuleOccurrences(rule: RecurringRule, today: string = todayISO()): Promise<Transaction[]> {
+  const db = getDb();
+  const posted: Transaction[] = [];
+
+  if (!rule.active || !rule.nextRunDate || rule.nextRunDate > today) return posted;
+
+  const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: rule.jointAccountId });
+  if (!account) return posted;
+
+  let index = rule.nextOccurrence;
+  let date = scheduledDate(rule, index);
+
+  while (date !== null && date <= today) {
+    let envelopeId: string | undefined;
+    if (rule.type === TransactionType.EXPENSE && account.budgetingMode === BudgetingMode.ENVELOPE) {
+      // Post even when the envelope is gone - it then shows up as an unassigned expense
+      envelopeId = (await resolveExpenseEnvelope(rule.jointAccountId, rule.category, rule.envelopeId)).envelopeId ?? undefined;
+    }
+
+    const now = new Date();
+    const transaction: Transaction = {
+      id: crypto.randomUUID(),
+      jointAccountId: rule.jointAccountId,
+      amount: rule.amount,
+      currency: rule.currency,
+      type: rule.type,
+      category: rule.category,
+      date,
+      note: rule.note,
+      addedByUserId: rule.createdByUserId,
+      addedByUserName: rule.createdByUserName,
+      ...(envelopeId && { envelopeId }),
+      recurringRuleId: rule.id,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    try {
+      await db.collection<Transaction>('transactions').insertOne(transaction);
+      posted.push(transaction);
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+    }
+
+    index++;
+    date = scheduledDate(rule, index);
+  }
+
+  // Only advance from the position we started at, so a concurrent run can't move it backwards
+  await db.collection<RecurringRule>('recurringRules').updateOne(
+    { id: rule.id, nextOccurrence: rule.nextOccurrence },
+    { $set: { nextOccurrence: index, nextRunDate: date, updatedAt: new Date() } }
+  );
+
+  await recordAudit(...posted.map(transaction => ({
+    jointAccountId: transaction.jointAccountId,
+    entity: 'transaction' as const,
+    entityId: transaction.id,
+    action: AuditAction.CREATE,
+    actor: SYSTEM_ACTOR,
+    after: transaction,
+    note: 'Recurring rule'
+  })));
+
+  for (const transaction of posted) {
+    await announceNewTransaction(transaction, {
+      actorUserId: '',
+      title: transaction.type === TransactionType.INCOME ? '🔁 Recurring income posted' : '🔁 Recurring expense posted'
+    });
+  }
+
+  return posted;
+}
+
+// Post all due occurrences across every joint account
+export async function postDueRecurringTransactions(today: string = todayISO()): Promise<number> {
+  const db = getDb();
+  const rules = await db.collection<RecurringRule>('recurringRules')
+    .find({ active: true, nextRunDate: { $ne: null, $lte: today } })
+    .toArray();
+
+  let total = 0;
+  for (const rule of rules) {
+    try {
+      total += (await postRuleOccurrences(rule, today)).length;
+    } catch (error) {
+      console.error(`Failed to post recurring rule ${rule.id}:`, error);
+    }
+  }
+  return total;
+}
+
+async function runScheduler(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    const posted = await postDueRecurringTransactions();
+    if (posted > 0) console.log(`🔁 Posted ${posted} recurring transactions`);
+  } finally {
+    running = false;
+  }
+}
+
+// Check for due recurring transactions on startup and then periodically
+export function initializeRecurringScheduler(): void {
+  const minutes = Number(process.env.RECURRING_CHECK_INTERVAL_MINUTES || 60);
+
+  runScheduler().catch(err => console.error('Recurring scheduler error:', err));
+
+  schedulerTimer = setInterval(() => {
+    runScheduler().catch(err => console.error('Recurring scheduler error:', err));
+  }, minutes * 60 * 1000);
+  schedulerTimer.unref();
+
+  console.log('✅ Recurring transaction scheduler initialized');
+}
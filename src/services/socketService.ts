@@ -1,12 +1,16 @@
 import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
+import { Auth } from '../config/auth.js';
+import { getDb } from '../config/database.js';
+import { resolveSession, SessionData } from '../middleware/auth.js';
+import { getChangesSince, recordChange } from './changeLogService.js';
 
 let io: Server | null = null;
 
 // Map to track which users are in which rooms
 const userRooms = new Map<string, Set<string>>();
 
-export function initializeSocketService(httpServer: HttpServer): Server {
+export function initializeSocketService(httpServer: HttpServer, auth: Auth): Server {
   // Get allowed origins from environment or defaults
   const allowedOrigins = [
     process.env.FRONTEND_URL || 'http://localhost:5173',
@@ -51,20 +55,48 @@ export function initializeSocketService(httpServer: HttpServer): Server {
     allowEIO3: true,
   });
 
+  // Authenticate the handshake with the same session or bearer token as the HTTP API.
+  // Clients pass the token as `auth: { token }`; browsers can rely on the session cookie.
+  io.use(async (socket, next) => {
+    try {
+      const token = typeof socket.handshake.auth?.token === 'string' ? socket.handshake.auth.token : undefined;
+      const sessionData = await resolveSession(auth, socket.handshake.headers, token);
+      if (!sessionData) {
+        return next(new Error('Unauthorized'));
+      }
+      socket.data.user = sessionData.user;
+      next();
+    } catch (error) {
+      console.error('Socket auth error:', error);
+      next(new Error('Authentication failed'));
+    }
+  });
+
   io.on('connection', (socket: Socket) => {
-    console.log('🔌 Client connected:', socket.id, '- Transport:', socket.conn.transport.name);
+    const user: SessionData['user'] = socket.data.user;
+    console.log('🔌 Client connected:', socket.id, '- User:', user.id, '- Transport:', socket.conn.transport.name);
 
-    // User joins their personal room (for receiving invites)
-    socket.on('join-user', (userId: string) => {
-      if (userId) {
-        socket.join(`user:${userId}`);
-        console.log(`👤 User ${userId} joined their personal room`);
-      }
+    // Every socket joins its user's personal room (for receiving invites)
+    socket.join(`user:${user.id}`);
+
+    // Kept for older clients - the room always comes from the session, never from the payload
+    socket.on('join-user', () => {
+      socket.join(`user:${user.id}`);
     });
 
-    // User joins a joint account room (for real-time updates)
-    socket.on('join-joint-account', (jointAccountId: string) => {
-      if (jointAccountId) {
+    // User joins a joint account room (for real-time updates) - members only
+    socket.on('join-joint-account', async (jointAccountId: string, ack?: (result: { success: boolean; error?: string }) => void) => {
+      if (!jointAccountId) return;
+      try {
+        const membership = await getDb().collection('jointAccountMembers')
+          .findOne({ jointAccountId, userId: user.id });
+
+        if (!membership) {
+          console.log(`🚫 User ${user.id} tried to join joint account ${jointAccountId} without being a member`);
+          ack?.({ success: false, error: 'You are not a member of this joint account' });
+          return;
+        }
+
         socket.join(`joint-account:${jointAccountId}`);
         console.log(`📊 Socket ${socket.id} joined joint account: ${jointAccountId}`);
         
@@ -73,6 +105,42 @@ export function initializeSocketService(httpServer: HttpServer): Server {
           userRooms.set(socket.id, new Set());
         }
         userRooms.get(socket.id)?.add(jointAccountId);
+        ack?.({ success: true });
+      } catch (error) {
+        console.error('Error joining joint account room:', error);
+        ack?.({ success: false, error: 'Failed to join joint account' });
+      }
+    });
+
+    // Reconnecting client catches up on what it missed: joins the room and gets every
+    // change after `since` through the acknowledgement (same shape as GET /api/sync)
+    socket.on('resume', async (
+      payload: { jointAccountId: string; since?: number },
+      ack?: (result: { success: boolean; data?: unknown; error?: string }) => void
+    ) => {
+      const jointAccountId = payload?.jointAccountId;
+      if (!jointAccountId || typeof ack !== 'function') return;
+      try {
+        const membership = await getDb().collection('jointAccountMembers')
+          .findOne({ jointAccountId, userId: user.id });
+
+        if (!membership) {
+          ack({ success: false, error: 'You are not a member of this joint account' });
+          return;
+        }
+
+        // Join before reading so nothing slips in between the replay and live events
+        socket.join(`joint-account:${jointAccountId}`);
+        if (!userRooms.has(socket.id)) {
+          userRooms.set(socket.id, new Set());
+        }
+        userRooms.get(socket.id)?.add(jointAccountId);
+
+        const since = Number(payload.since) || 0;
+        ack({ success: true, data: await getChangesSince(jointAccountId, since) });
+      } catch (error) {
+        console.error('Error resuming joint account:', error);
+        ack({ success: false, error: 'Failed to resume' });
       }
     });
 
@@ -107,12 +175,36 @@ export function emitToUser(userId: string, event: string, data: any) {
   }
 }
 
-// Emit event to all members of a joint account
-export function emitToJointAccount(jointAccountId: string, event: string, data: any) {
+// Take every socket of a user out of a joint account room (after they leave or are removed)
+export function removeUserFromJointAccount(userId: string, jointAccountId: string) {
   if (io) {
-    io.to(`joint-account:${jointAccountId}`).emit(event, data);
+    io.in(`user:${userId}`).socketsLeave(`joint-account:${jointAccountId}`);
+    console.log(`🚪 Removed user ${userId} from joint account room ${jointAccountId}`);
+  }
+}
+
+// Log a change of a joint account and emit it to all members. The change is logged first so
+// offline clients can replay it; the event carries its sequence number as a second argument
+// ({ seq }). Rejects without emitting when the change couldn't be logged - mutations await it,
+// so they don't report success for a change sync would never hand out.
+export async function publishToJointAccount(jointAccountId: string, event: string, data: any): Promise<number> {
+  const seq = await recordChange(jointAccountId, event, data);
+  if (io) {
+    io.to(`joint-account:${jointAccountId}`).emit(event, data, { seq });
     console.log(`📤 Emitted ${event} to joint account ${jointAccountId}`);
   }
+  return seq;
+}
+
+// Emit event to all members of a joint account without waiting for the change log.
+// If logging fails the event still goes out, just without a sequence number.
+export function emitToJointAccount(jointAccountId: string, event: string, data: any) {
+  publishToJointAccount(jointAccountId, event, data).catch(err => {
+    console.error('Change log error:', err);
+    if (io) {
+      io.to(`joint-account:${jointAccountId}`).emit(event, data);
+    }
+  });
 }
 
 // Socket event types for type safety
@@ -133,6 +225,35 @@ export const SocketEvents = {
   TRANSACTION_UPDATED: 'transaction:updated',
   TRANSACTION_DELETED: 'transaction:deleted',
   
+  // Budget events
+  BUDGET_CREATED: 'budget:created',
+  BUDGET_UPDATED: 'budget:updated',
+  BUDGET_DELETED: 'budget:deleted',
+  BUDGET_THRESHOLD_REACHED: 'budget:threshold-reached',
+  
+  // Envelope events
+  ENVELOPE_CREATED: 'envelope:created',
+  ENVELOPE_UPDATED: 'envelope:updated',
+  ENVELOPE_DELETED: 'envelope:deleted',
+  ENVELOPE_TRANSFERRED: 'envelope:transferred',
+  
+  // Goal events
+  GOAL_CREATED: 'goal:created',
+  GOAL_UPDATED: 'goal:updated',
+  GOAL_DELETED: 'goal:deleted',
+  GOAL_CONTRIBUTION_ADDED: 'goal:contribution-added',
+  GOAL_CONTRIBUTION_REMOVED: 'goal:contribution-removed',
+  
+  // Subscription events
+  SUBSCRIPTION_CREATED: 'subscription:created',
+  SUBSCRIPTION_UPDATED: 'subscription:updated',
+  SUBSCRIPTION_DELETED: 'subscription:deleted',
+  
+  // Custom category events
+  CATEGORY_CREATED: 'category:created',
+  CATEGORY_UPDATED: 'category:updated',
+  CATEGORY_DELETED: 'category:deleted',
+  
   // Joint account events
   JOINT_ACCOUNT_UPDATED: 'joint-account:updated',
   JOINT_ACCOUNT_DELETED: 'joint-account:deleted',
@@ -0,0 +1,198 @@
+import { getDb } from '../config/database.js';
+import {
+  Subscription,
+  SubscriptionCycle,
+  SubscriptionProposal,
+  Transaction,
+  TransactionType
+} from '../types/index.js';
+import { nextBillingDateAfter, rollForwardBillingDate } from '../utils/billing.js';
+import { addMonthsISO, daysBetween, todayISO } from '../utils/dates.js';
+
+// Proposals below this confidence are not worth showing
+export const MIN_PROPOSAL_CONFIDENCE = 0.6;
+
+const MIN_OCCURRENCES = 3;
+const LOOKBACK_MONTHS = 18;
+const AMOUNT_TOLERANCE = 0.1; // Charges within 10% of the typical amount count as "the same"
+
+// Known cycles and how far (in days) an interval may stray from them
+const CYCLE_WINDOWS: Array<{ cycle: SubscriptionCycle; days: number; tolerance: number }> = [
+  { cycle: 'Weekly', days: 7, tolerance: 1 },
+  { cycle: 'Biweekly', days: 14, tolerance: 2 },
+  { cycle: 'Monthly', days: 30.44, tolerance: 4 },
+  { cycle: 'Quarterly', days: 91.31, tolerance: 7 },
+  { cycle: 'Semiannual', days: 182.62, tolerance: 10 },
+  { cycle: 'Yearly', days: 365.25, tolerance: 15 }
+];
+
+// Words that vary between charges of the same merchant or carry no meaning
+const NOISE_WORDS = new Set([
+  'payment', 'purchase', 'card', 'debit', 'credit', 'pos', 'visa', 'mastercard', 'online',
+  'recurring', 'subscription', 'monthly', 'charge', 'ref', 'txn', 'transaction', 'www', 'com', 'inc', 'ltd'
+]);
+
+export interface DetectedSubscription {
+  merchantKey: string;
+  name: string;
+  amount: number;
+  currency: Subscription['currency'];
+  cycle: SubscriptionCycle;
+  customInterval?: Subscription['customInterval'];
+  nextBillingDate: string;
+  confidence: number;
+  occurrences: number;
+  transactionIds: string[];
+  lastChargedAt: string;
+}
+
+// "NETFLIX.COM 12/03 #4411" -> "netflix"
+export function merchantKeyOf(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\s]+/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !NOISE_WORDS.has(word))
+    .slice(0, 3)
+    .join(' ');
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\b\p{L}/gu, c => c.toUpperCase());
+}
+
+// Match a typical interval to a billing cycle. Intervals that fit no named cycle become
+// custom "every N days" cycles.
+function cycleForInterval(days: number): { cycle: SubscriptionCycle; customInterval?: Subscription['customInterval']; days: number; tolerance: number } {
+  const known = CYCLE_WINDOWS.find(w => Math.abs(days - w.days) <= w.tolerance);
+  if (known) return known;
+
+  const every = Math.round(days);
+  return { cycle: 'Custom', customInterval: { every, unit: 'days' }, days: every, tolerance: Math.max(1, every * 0.1) };
+}
+
+// Score one group of charges that share a merchant and currency
+function analyzeGroup(merchantKey: string, charges: Transaction[], today: string): DetectedSubscription | null {
+  if (charges.length < MIN_OCCURRENCES) return null;
+
+  const sorted = [...charges].sort((a, b) => a.date.localeCompare(b.date));
+
+  // Same-day duplicates (e.g. a split payment) aren't separate billing periods
+  const dated = sorted.filter((t, i) => i === 0 || t.date.slice(0, 10) !== sorted[i - 1].date.slice(0, 10));
+  if (dated.length < MIN_OCCURRENCES) return null;
+
+  const intervals = dated.slice(1).map((t, i) => daysBetween(dated[i].date, t.date));
+  const typicalInterval = median(intervals);
+  if (typicalInterval < 5) return null;
+
+  const match = cycleForInterval(typicalInterval);
+  const regularIntervals = intervals.filter(d => Math.abs(d - match.days) <= match.tolerance).length / intervals.length;
+
+  const typicalAmount = median(dated.map(t => t.amount));
+  const similarAmounts = dated.filter(t => Math.abs(t.amount - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE).length / dated.length;
+
+  // Regular shopping (groceries every week) varies in amount or timing - not a subscription
+  if (regularIntervals < 0.5 || similarAmounts < 0.5) return null;
+
+  // More history makes the pattern more believable, up to 6 charges
+  const history = Math.min(1, (dated.length - 2) / 4);
+  const confidence = Math.round((0.4 * regularIntervals + 0.4 * similarAmounts + 0.2 * history) * 100) / 100;
+
+  // A subscription that missed two cycles has probably been cancelled already
+  const last = dated[dated.length - 1];
+  if (daysBetween(last.date, today) > match.days * 2 + match.tolerance) return null;
+
+  const schedule = { cycle: match.cycle, customInterval: match.customInterval, billingDay: Number(last.date.slice(8, 10)) };
+  const nextBillingDate = rollForwardBillingDate(nextBillingDateAfter(last.date.slice(0, 10), schedule), schedule, today);
+
+  return {
+    merchantKey,
+    name: titleCase(merchantKey),
+    amount: Math.round(typicalAmount * 100) / 100,
+    currency: last.currency,
+    cycle: match.cycle,
+    ...(match.customInterval && { customInterval: match.customInterval }),
+    nextBillingDate,
+    confidence,
+    occurrences: dated.length,
+    transactionIds: dated.map(t => t.id),
+    lastChargedAt: last.date.slice(0, 10)
+  };
+}
+
+// Find charges in a joint account that look like an unregistered subscription
+export async function detectRecurringCharges(jointAccountId: string, today: string = todayISO()): Promise<DetectedSubscription[]> {
+  const db = getDb();
+
+  const [transactions, subscriptions] = await Promise.all([
+    db.collection<Transaction>('transactions')
+      .find({
+        jointAccountId,
+        type: TransactionType.EXPENSE,
+        date: { $gte: addMonthsISO(today, -LOOKBACK_MONTHS) },
+        // Charges we posted ourselves are already tracked
+        subscriptionId: { $exists: false },
+        recurringRuleId: { $exists: false }
+      })
+      .toArray(),
+    db.collection<Subscription>('subscriptions').find({ jointAccountId }).toArray()
+  ]);
+
+  const known = new Set(subscriptions.map(s => merchantKeyOf(s.name)));
+
+  const groups = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    const merchantKey = merchantKeyOf(t.note || '');
+    if (!merchantKey || known.has(merchantKey)) continue;
+    const key = `${merchantKey}|${t.currency}`;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  }
+
+  const detected: DetectedSubscription[] = [];
+  groups.forEach((charges, key) => {
+    const result = analyzeGroup(key.split('|')[0], charges, today);
+    if (result && result.confidence >= MIN_PROPOSAL_CONFIDENCE) detected.push(result);
+  });
+
+  return detected.sort((a, b) => b.confidence - a.confidence);
+}
+
+// Re-scan a joint account and refresh its pending proposals.
+// Dismissed and accepted proposals are left alone so they don't come back.
+export async function refreshSubscriptionProposals(jointAccountId: string): Promise<SubscriptionProposal[]> {
+  const db = getDb();
+  const detected = await detectRecurringCharges(jointAccountId);
+  const now = new Date();
+
+  if (detected.length > 0) {
+    try {
+      await db.collection<SubscriptionProposal>('subscriptionProposals').bulkWrite(
+        detected.map(d => ({
+          updateOne: {
+            filter: { jointAccountId, merchantKey: d.merchantKey, currency: d.currency, status: 'PENDING' as const },
+            update: {
+              $set: { ...d, updatedAt: now },
+              $setOnInsert: { id: crypto.randomUUID(), jointAccountId, createdAt: now }
+            },
+            upsert: true
+          }
+        })),
+        { ordered: false }
+      );
+    } catch (error: any) {
+      // Upserts for merchants with a dismissed or accepted proposal hit the unique index - skip those
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  return db.collection<SubscriptionProposal>('subscriptionProposals')
+    .find({ jointAccountId, status: 'PENDING' })
+    .sort({ confidence: -1 })
+    .toArray();
+}
@@ -0,0 +1,754 @@
+import { getDb } from '../config/database.js';
+import {
+  AuditAction,
+  BudgetingMode,
+  Category,
+  JointAccount,
+  JointAccountMember,
+  MutationOutcome,
+  Subscription,
+  SubscriptionCharge,
+  SubscriptionPriceChange,
+  SubscriptionReminder,
+  SubscriptionStatus,
+  Transaction,
+  TransactionType
+} from '../types/index.js';
+import { resolveExpenseEnvelope } from './envelopeService.js';
+import { announceNewTransaction } from './transactionService.js';
+import { notifyJointAccountMembers, sendNotificationToUser } from './pushService.js';
+import { sendEmail, getBillReminderEmailTemplate } from './emailService.js';
+import { emitToJointAccount, publishToJointAccount, SocketEvents } from './socketService.js';
+import { recordAudit, SYSTEM_ACTOR } from './auditService.js';
+import { deleteToTrash } from './trashService.js';
+import { isJointAccountMember } from '../middleware/jointAccount.js';
+import {
+  billingDayOf,
+  isSubscriptionActive,
+  monthlyEquivalent,
+  nextBillingDateAfter,
+  previousBillingDateBefore,
+  rollForwardBillingDate,
+  validateBillingCycle
+} from '../utils/billing.js';
+import { addDaysISO, daysBetween, isISODate, todayISO } from '../utils/dates.js';
+import { findUserById, getUserIdString } from '../utils/userLookup.js';
+import { bumpVersion, currentVersion, isClientId, versionFilter } from '../utils/mutations.js';
+
+// Days before a billing date that members are reminded, unless the subscription sets its own
+export const DEFAULT_REMINDER_DAYS = [3, 1];
+
+// Paused and cancelled subscriptions are neither billed nor reminded
+const ACTIVE_SUBSCRIPTION_FILTER = { status: { $nin: [SubscriptionStatus.PAUSED, SubscriptionStatus.CANCELLED] } };
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+type SubscriptionPrice = Pick<Subscription, 'amount' | 'currency'>;
+
+export interface SubscriptionInput {
+  id?: string; // Client-generated ID (offline creates)
+  jointAccountId?: string;
+  name?: string;
+  amount?: number | string;
+  currency?: Subscription['currency'];
+  cycle?: Subscription['cycle'];
+  customInterval?: any;
+  trialEndsAt?: string | null;
+  status?: SubscriptionStatus;
+  nextBillingDate?: string;
+  postCharges?: boolean;
+  category?: string;
+  reminderDays?: unknown;
+  priceEffectiveDate?: string; // When an amount/currency change takes effect (defaults to today)
+}
+
+export interface SubscriptionUser {
+  id: string;
+  name: string;
+}
+
+// What a subscription costs per year at a given price, in its own currency
+export function yearlyCost(amount: number, schedule: Pick<Subscription, 'cycle' | 'customInterval'>): number {
+  return Math.round(monthlyEquivalent(amount, schedule) * 12 * 100) / 100;
+}
+
+// How much a price change adds to (or saves from) the yearly cost; null when the currency changed
+export function yearlyImpact(change: SubscriptionPriceChange, schedule: Pick<Subscription, 'cycle' | 'customInterval'>): number | null {
+  if (change.currency !== change.previousCurrency) return null;
+  return Math.round((yearlyCost(change.amount, schedule) - yearlyCost(change.previousAmount, schedule)) * 100) / 100;
+}
+
+// Price changes of a subscription that take effect after a date, oldest first
+async function priceChangesAfter(subscriptionId: string, date: string): Promise<SubscriptionPriceChange[]> {
+  return getDb().collection<SubscriptionPriceChange>('subscriptionPriceChanges')
+    .find({ subscriptionId, effectiveDate: { $gt: date } })
+    .sort({ effectiveDate: 1 })
+    .toArray();
+}
+
+// Price on a date: the subscription's current price, unless a change takes effect after the date
+function priceOn(subscription: Subscription, laterChanges: SubscriptionPriceChange[], date: string): SubscriptionPrice {
+  const next = laterChanges.find(c => c.effectiveDate > date);
+  return next
+    ? { amount: next.previousAmount, currency: next.previousCurrency }
+    : { amount: subscription.amount, currency: subscription.currency };
+}
+
+// Price increases above this percent are pushed to the other members
+function priceAlertPercent(): number {
+  return Number(process.env.SUBSCRIPTION_PRICE_ALERT_PERCENT || 10);
+}
+
+// Changes apply in order, so a new one can't take effect before the last one.
+// Returns an error message when effectiveDate is too early.
+async function checkPriceEffectiveDate(subscriptionId: string, effectiveDate: string): Promise<string | undefined> {
+  const db = getDb();
+  const [latest] = await db.collection<SubscriptionPriceChange>('subscriptionPriceChanges')
+    .find({ subscriptionId })
+    .sort({ effectiveDate: -1 })
+    .limit(1)
+    .toArray();
+  if (latest && effectiveDate < latest.effectiveDate) {
+    return `effectiveDate can't be before the last price change (${latest.effectiveDate})`;
+  }
+  return undefined;
+}
+
+// Record a new price for a subscription and warn members about a big increase.
+// Call it once the new price is saved. Returns null when the price didn't change.
+export async function recordPriceChange(
+  subscription: Subscription,
+  price: SubscriptionPrice & { effectiveDate: string },
+  user: { id: string; name: string }
+): Promise<SubscriptionPriceChange | null> {
+  const db = getDb();
+  if (price.amount === subscription.amount && price.currency === subscription.currency) {
+    return null;
+  }
+
+  const sameCurrency = price.currency === subscription.currency;
+  const change: SubscriptionPriceChange = {
+    id: crypto.randomUUID(),
+    subscriptionId: subscription.id,
+    jointAccountId: subscription.jointAccountId,
+    previousAmount: subscription.amount,
+    previousCurrency: subscription.currency,
+    amount: price.amount,
+    currency: price.currency,
+    effectiveDate: price.effectiveDate,
+    changePercent: sameCurrency && subscription.amount > 0
+      ? Math.round(((price.amount - subscription.amount) / subscription.amount) * 1000) / 10
+      : null,
+    changedByUserId: user.id,
+    changedByUserName: user.name,
+    createdAt: new Date()
+  };
+
+  await db.collection<SubscriptionPriceChange>('subscriptionPriceChanges').insertOne(change);
+
+  if (change.changePercent !== null && change.changePercent > priceAlertPercent() && isSubscriptionActive(subscription)) {
+    const impact = yearlyImpact(change, subscription)!;
+    notifyJointAccountMembers(subscription.jointAccountId, user.id, {
+      title: `📈 ${subscription.name} price up ${change.changePercent}%`,
+      body: `${change.currency} ${change.previousAmount.toLocaleString()} → ${change.amount.toLocaleString()} from ${change.effectiveDate} (+${change.currency} ${impact.toLocaleString()} a year)`,
+      icon: process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/icon-192.png` : 'https://money-flow-six.vercel.app/icon-192.png',
+      tag: `subscription-price-${subscription.id}`,
+      data: { type: 'subscription-price', subscriptionId: subscription.id, jointAccountId: subscription.jointAccountId, url: '/subscriptions' }
+    }).catch(err => console.error('Notification error:', err));
+  }
+
+  return change;
+}
+
+// Reminder days must be whole days before the billing date (0 = on the day)
+function parseReminderDays(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.some(d => !Number.isInteger(d) || d < 0 || d > 60)) return null;
+  return Array.from(new Set(value as number[])).sort((a, b) => b - a);
+}
+
+// Create a subscription for a member. Creating again with the same client ID returns the stored one.
+export async function createSubscription(input: SubscriptionInput, user: SubscriptionUser): Promise<MutationOutcome<Subscription>> {
+  const db = getDb();
+  const {
+    jointAccountId,
+    name,
+    amount,
+    currency,
+    cycle,
+    customInterval,
+    trialEndsAt,
+    nextBillingDate,
+    postCharges,
+    category
+  } = input;
+  const reminderDays = input.reminderDays === undefined ? undefined : parseReminderDays(input.reminderDays);
+
+  if (!jointAccountId || !name || !amount || !cycle) {
+    return { ok: false, status: 400, error: 'Missing required fields: jointAccountId, name, amount, cycle' };
+  }
+
+  if (input.id !== undefined && !isClientId(input.id)) {
+    return { ok: false, status: 400, error: 'id must be a UUID' };
+  }
+
+  if (reminderDays === null) {
+    return { ok: false, status: 400, error: 'reminderDays must be an array of whole days between 0 and 60' };
+  }
+
+  const cycleError = validateBillingCycle(cycle, customInterval);
+  if (cycleError) {
+    return { ok: false, status: 400, error: cycleError };
+  }
+
+  if (trialEndsAt !== undefined && trialEndsAt !== null && !isISODate(trialEndsAt)) {
+    return { ok: false, status: 400, error: 'trialEndsAt must be in YYYY-MM-DD format' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  if (input.id) {
+    const existing = await db.collection<Subscription>('subscriptions').findOne({ id: input.id });
+    if (existing) {
+      return existing.jointAccountId === jointAccountId
+        ? { ok: true, status: 200, data: existing }
+        : { ok: false, status: 409, error: 'id is already in use' };
+    }
+  }
+
+  const now = new Date();
+  // With a free trial the first charge is when the trial ends
+  const billingDate = nextBillingDate || trialEndsAt || now.toISOString().split('T')[0];
+  const subscription: Subscription = {
+    id: input.id || crypto.randomUUID(),
+    jointAccountId,
+    name,
+    amount: Number(amount),
+    currency: currency || ('USD' as Subscription['currency']),
+    cycle,
+    ...(cycle === 'Custom' && { customInterval: { every: customInterval.every, unit: customInterval.unit } }),
+    status: SubscriptionStatus.ACTIVE,
+    ...(trialEndsAt && { trialEndsAt }),
+    nextBillingDate: billingDate,
+    billingDay: billingDayOf(billingDate),
+    postCharges: postCharges === true,
+    ...(category && { category }),
+    ...(reminderDays && { reminderDays }),
+    createdByUserId: user.id,
+    createdByUserName: user.name,
+    version: 1,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    await db.collection<Subscription>('subscriptions').insertOne(subscription);
+  } catch (error: any) {
+    // The same client ID raced in from another request
+    if (error?.code !== 11000) throw error;
+    const existing = await db.collection<Subscription>('subscriptions').findOne({ id: subscription.id });
+    return existing?.jointAccountId === jointAccountId
+      ? { ok: true, status: 200, data: existing }
+      : { ok: false, status: 409, error: 'id is already in use' };
+  }
+
+  await recordAudit({
+    jointAccountId,
+    entity: 'subscription',
+    entityId: subscription.id,
+    action: AuditAction.CREATE,
+    actor: user,
+    after: subscription
+  });
+
+  // Emit real-time update to joint account members
+  await publishToJointAccount(subscription.jointAccountId, SocketEvents.SUBSCRIPTION_CREATED, subscription);
+
+  return { ok: true, status: 201, data: subscription };
+}
+
+// Update a subscription. With baseVersion set, the update only applies if nobody edited it since
+// that version. A new amount or currency is kept in the price history.
+export async function updateSubscription(
+  subscriptionId: string,
+  input: SubscriptionInput,
+  user: SubscriptionUser,
+  baseVersion?: number
+): Promise<MutationOutcome<Subscription>> {
+  const db = getDb();
+  const {
+    name,
+    amount,
+    currency,
+    cycle,
+    customInterval,
+    trialEndsAt,
+    status,
+    nextBillingDate,
+    postCharges,
+    category,
+    priceEffectiveDate
+  } = input;
+
+  const subscription = await db.collection<Subscription>('subscriptions')
+    .findOne({ id: subscriptionId });
+
+  if (!subscription) {
+    return { ok: false, status: 404, error: 'Subscription not found' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(subscription.jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  if (baseVersion !== undefined && baseVersion !== currentVersion(subscription)) {
+    return { ok: false, status: 409, error: 'This subscription was changed by someone else', current: subscription };
+  }
+
+  const updateData: Partial<Subscription> = { updatedAt: new Date(), version: currentVersion(subscription) + 1 };
+  if (name !== undefined) updateData.name = name;
+  if (amount !== undefined) updateData.amount = Number(amount);
+  if (currency) updateData.currency = currency;
+  if (cycle || customInterval) {
+    const cycleError = validateBillingCycle(cycle || subscription.cycle, customInterval || subscription.customInterval);
+    if (cycleError) {
+      return { ok: false, status: 400, error: cycleError };
+    }
+    if (cycle) updateData.cycle = cycle;
+    if ((cycle || subscription.cycle) === 'Custom') {
+      const interval = customInterval || subscription.customInterval;
+      updateData.customInterval = { every: interval.every, unit: interval.unit };
+    }
+  }
+  if (trialEndsAt !== undefined) {
+    if (trialEndsAt !== null && !isISODate(trialEndsAt)) {
+      return { ok: false, status: 400, error: 'trialEndsAt must be in YYYY-MM-DD format' };
+    }
+    updateData.trialEndsAt = trialEndsAt || undefined;
+  }
+  if (nextBillingDate) {
+    updateData.nextBillingDate = nextBillingDate;
+    updateData.billingDay = billingDayOf(nextBillingDate);
+  }
+  if (status !== undefined && status !== (subscription.status || SubscriptionStatus.ACTIVE)) {
+    if (!Object.values(SubscriptionStatus).includes(status)) {
+      return { ok: false, status: 400, error: `status must be one of: ${Object.values(SubscriptionStatus).join(', ')}` };
+    }
+    updateData.status = status;
+    updateData.statusChangedAt = new Date();
+
+    // Resuming doesn't bill the cycles that passed while paused or cancelled
+    if (status === SubscriptionStatus.ACTIVE) {
+      updateData.nextBillingDate = rollForwardBillingDate(
+        updateData.nextBillingDate || subscription.nextBillingDate,
+        { ...subscription, ...updateData },
+        todayISO()
+      );
+    }
+  }
+  if (postCharges !== undefined) updateData.postCharges = postCharges === true;
+  if (category) updateData.category = category;
+  if (input.reminderDays !== undefined) {
+    const reminderDays = parseReminderDays(input.reminderDays);
+    if (!reminderDays) {
+      return { ok: false, status: 400, error: 'reminderDays must be an array of whole days between 0 and 60' };
+    }
+    updateData.reminderDays = reminderDays;
+  }
+
+  // Keep the old price in the history instead of overwriting it
+  const priceChanged = updateData.amount !== undefined || updateData.currency !== undefined;
+  const effectiveDate = priceEffectiveDate || todayISO();
+  if (priceChanged) {
+    if (!isISODate(effectiveDate)) {
+      return { ok: false, status: 400, error: 'priceEffectiveDate must be in YYYY-MM-DD format' };
+    }
+    const error = await checkPriceEffectiveDate(subscriptionId, effectiveDate);
+    if (error) {
+      return { ok: false, status: 400, error };
+    }
+  }
+
+  const result = await db.collection<Subscription>('subscriptions').updateOne(
+    { id: subscriptionId, ...versionFilter(currentVersion(subscription)) },
+    { $set: updateData }
+  );
+
+  const updated = await db.collection<Subscription>('subscriptions')
+    .findOne({ id: subscriptionId });
+
+  if (!updated) {
+    return { ok: false, status: 404, error: 'Subscription not found' };
+  }
+  if (result.matchedCount === 0) {
+    return { ok: false, status: 409, error: 'This subscription was changed by someone else', current: updated };
+  }
+
+  // Only once the new price is saved, so a conflicting update leaves no history or alert behind
+  if (priceChanged) {
+    await recordPriceChange(
+      subscription,
+      {
+        amount: updateData.amount ?? subscription.amount,
+        currency: updateData.currency ?? subscription.currency,
+        effectiveDate
+      },
+      user
+    );
+  }
+
+  await recordAudit({
+    jointAccountId: subscription.jointAccountId,
+    entity: 'subscription',
+    entityId: subscriptionId,
+    action: AuditAction.UPDATE,
+    actor: user,
+    before: subscription,
+    after: updated
+  });
+
+  // Emit real-time update to joint account members
+  await publishToJointAccount(subscription.jointAccountId, SocketEvents.SUBSCRIPTION_UPDATED, updated);
+
+  return { ok: true, status: 200, data: updated };
+}
+
+// Delete a subscription and its billing history (restorable from the trash),
+// optionally only if it's still at baseVersion
+export async function deleteSubscription(
+  subscriptionId: string,
+  user: SubscriptionUser,
+  baseVersion?: number
+): Promise<MutationOutcome<Subscription>> {
+  const db = getDb();
+
+  const subscription = await db.collection<Subscription>('subscriptions')
+    .findOne({ id: subscriptionId });
+
+  if (!subscription) {
+    return { ok: false, status: 404, error: 'Subscription not found' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(subscription.jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  // Posted expenses stay; only the billing history goes to the trash with the subscription
+  const trashed = await deleteToTrash<Subscription>(
+    'subscription',
+    { id: subscriptionId, ...(baseVersion !== undefined && versionFilter(baseVersion)) },
+    user,
+    async () => {
+      const [charges, reminders, priceChanges] = await Promise.all([
+        db.collection<SubscriptionCharge>('subscriptionCharges').find({ subscriptionId }).toArray(),
+        db.collection('subscriptionReminders').find({ subscriptionId }).toArray(),
+        db.collection<SubscriptionPriceChange>('subscriptionPriceChanges').find({ subscriptionId }).toArray()
+      ]);
+      return { related: { subscriptionCharges: charges, subscriptionReminders: reminders, subscriptionPriceChanges: priceChanges } };
+    }
+  );
+  if (!trashed) {
+    const current = await db.collection<Subscription>('subscriptions').findOne({ id: subscriptionId });
+    return current
+      ? { ok: false, status: 409, error: 'This subscription was changed by someone else', current }
+      : { ok: false, status: 404, error: 'Subscription not found' };
+  }
+  await db.collection<SubscriptionCharge>('subscriptionCharges').deleteMany({ subscriptionId });
+  await db.collection('subscriptionReminders').deleteMany({ subscriptionId });
+  await db.collection<SubscriptionPriceChange>('subscriptionPriceChanges').deleteMany({ subscriptionId });
+
+  await recordAudit({
+    jointAccountId: subscription.jointAccountId,
+    entity: 'subscription',
+    entityId: subscriptionId,
+    action: AuditAction.DELETE,
+    actor: user,
+    before: trashed.record
+  });
+
+  // Emit real-time update to joint account members
+  await publishToJointAccount(subscription.jointAccountId, SocketEvents.SUBSCRIPTION_DELETED, {
+    subscriptionId,
+    jointAccountId: subscription.jointAccountId,
+    trashId: trashed.item.id
+  });
+
+  return { ok: true, status: 200, data: trashed.record };
+}
+
+// Expense for a subscription charge
+async function postChargeTransaction(subscription: Subscription, charge: SubscriptionCharge): Promise<Transaction> {
+  const db = getDb();
+  const category = subscription.category || Category.OTHER;
+
+  let envelopeId: string | undefined;
+  const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: subscription.jointAccountId });
+  if (account?.budgetingMode === BudgetingMode.ENVELOPE) {
+    envelopeId = (await resolveExpenseEnvelope(subscription.jointAccountId, category)).envelopeId ?? undefined;
+  }
+
+  const now = new Date();
+  const transaction: Transaction = {
+    id: charge.transactionId!,
+    jointAccountId: subscription.jointAccountId,
+    amount: charge.amount,
+    currency: charge.currency,
+    type: TransactionType.EXPENSE,
+    category,
+    date: charge.billingDate,
+    note: subscription.name,
+    addedByUserId: subscription.createdByUserId || 'system',
+    addedByUserName: subscription.createdByUserName || 'FlowMoney',
+    ...(envelopeId && { envelopeId }),
+    subscriptionId: subscription.id,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await db.collection<Transaction>('transactions').insertOne(transaction);
+  await recordAudit({
+    jointAccountId: transaction.jointAccountId,
+    entity: 'transaction',
+    entityId: transaction.id,
+    action: AuditAction.CREATE,
+    actor: SYSTEM_ACTOR,
+    after: transaction,
+    note: `${subscription.name} renewal`
+  });
+  return transaction;
+}
+
+// Record every billing date of a subscription that has passed and roll nextBillingDate forward.
+// Each charge is claimed through the unique { subscriptionId, billingDate } index, so when
+// several instances run the scheduler only one of them records (and posts) a given charge.
+export async function billSubscription(subscription: Subscription, today: string = todayISO()): Promise<SubscriptionCharge[]> {
+  const db = getDb();
+  const charges: SubscriptionCharge[] = [];
+  if (!isSubscriptionActive(subscription)) return charges;
+
+  let billingDate = subscription.nextBillingDate.slice(0, 10);
+  const laterChanges = billingDate <= today ? await priceChangesAfter(subscription.id, billingDate) : [];
+
+  while (billingDate <= today) {
+    // Nothing is charged while the free trial lasts
+    if (subscription.trialEndsAt && billingDate < subscription.trialEndsAt) {
+      billingDate = nextBillingDateAfter(billingDate, subscription);
+      continue;
+    }
+
+    const charge: SubscriptionCharge = {
+      id: crypto.randomUUID(),
+      subscriptionId: subscription.id,
+      jointAccountId: subscription.jointAccountId,
+      billingDate,
+      ...priceOn(subscription, laterChanges, billingDate),
+      ...(subscription.postCharges && { transactionId: crypto.randomUUID() }),
+      createdAt: new Date()
+    };
+
+    let claimed = true;
+    try {
+      await db.collection<SubscriptionCharge>('subscriptionCharges').insertOne(charge);
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+      claimed = false; // Already billed by another instance or an earlier run
+    }
+
+    if (claimed) {
+      if (charge.transactionId) {
+        let transaction: Transaction;
+        try {
+          transaction = await postChargeTransaction(subscription, charge);
+        } catch (error) {
+          // Release the claim so the next run tries this charge again
+          await db.collection<SubscriptionCharge>('subscriptionCharges').deleteOne({ id: charge.id });
+          throw error;
+        }
+        await announceNewTransaction(transaction, { actorUserId: '', title: `🔄 ${subscription.name} renewed` });
+      }
+      charges.push(charge);
+    }
+
+    billingDate = nextBillingDateAfter(billingDate, subscription);
+  }
+
+  // Only move the date if nobody changed it meanwhile (another instance, or a user edit)
+  if (billingDate !== subscription.nextBillingDate) {
+    const advanced = await db.collection<Subscription>('subscriptions').findOneAndUpdate(
+      { id: subscription.id, nextBillingDate: subscription.nextBillingDate },
+      [{ $set: { nextBillingDate: billingDate, updatedAt: new Date(), ...bumpVersion() } }],
+      { returnDocument: 'after' }
+    );
+    if (advanced) {
+      emitToJointAccount(subscription.jointAccountId, SocketEvents.SUBSCRIPTION_UPDATED, advanced);
+    }
+  }
+
+  return charges;
+}
+
+// Bill every subscription whose billing date has come
+export async function processDueSubscriptions(today: string = todayISO()): Promise<number> {
+  const db = getDb();
+  const subscriptions = await db.collection<Subscription>('subscriptions')
+    .find({ nextBillingDate: { $lte: today }, ...ACTIVE_SUBSCRIPTION_FILTER })
+    .toArray();
+
+  let total = 0;
+  for (const subscription of subscriptions) {
+    try {
+      total += (await billSubscription(subscription, today)).length;
+    } catch (error) {
+      console.error(`Failed to bill subscription ${subscription.id}:`, error);
+    }
+  }
+  return total;
+}
+
+// Remind one member about an upcoming bill: push first, email when push isn't available
+async function remindMember(
+  subscription: Subscription,
+  account: JointAccount,
+  userId: string,
+  price: SubscriptionPrice,
+  daysBefore: number,
+  daysUntil: number
+): Promise<boolean> {
+  const db = getDb();
+  const user = await findUserById(userId);
+  if (!user || user.notificationsEnabled !== true) return false;
+
+  // Claim the reminder first so it goes out once per billing date, even with several instances
+  const reminder: SubscriptionReminder = {
+    id: crypto.randomUUID(),
+    subscriptionId: subscription.id,
+    jointAccountId: subscription.jointAccountId,
+    userId,
+    billingDate: subscription.nextBillingDate,
+    daysBefore,
+    channel: 'none',
+    sentAt: new Date()
+  };
+  try {
+    await db.collection<SubscriptionReminder>('subscriptionReminders').insertOne(reminder);
+  } catch (error: any) {
+    if (error?.code === 11000) return false;
+    throw error;
+  }
+
+  const when = daysUntil === 0 ? 'today' : daysUntil === 1 ? 'tomorrow' : `in ${daysUntil} days`;
+  // The first charge after a free trial gets its own warning - the trial may end on the billing
+  // date or earlier in the cycle that date bills for
+  const { trialEndsAt, nextBillingDate } = subscription;
+  const trialEnding = !!trialEndsAt
+    && trialEndsAt <= nextBillingDate
+    && trialEndsAt > previousBillingDateBefore(nextBillingDate, subscription);
+  const trialWhen = trialEndsAt && trialEndsAt !== nextBillingDate ? `on ${trialEndsAt}` : when;
+  const pushed = await sendNotificationToUser(getUserIdString(user), {
+    title: trialEnding ? `🆓 ${subscription.name} free trial ends ${trialWhen}` : `📅 ${subscription.name} renews ${when}`,
+    body: `${price.currency} ${price.amount.toLocaleString()} on ${subscription.nextBillingDate} (${account.name})`,
+    icon: process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/icon-192.png` : 'https://money-flow-six.vercel.app/icon-192.png',
+    tag: `subscription-reminder-${subscription.id}`,
+    data: { type: 'subscription-reminder', subscriptionId: subscription.id, jointAccountId: account.id, url: '/subscriptions' }
+  });
+
+  let channel: SubscriptionReminder['channel'] = pushed ? 'push' : 'none';
+  if (!pushed && user.email) {
+    const template = getBillReminderEmailTemplate({
+      subscriptionName: subscription.name,
+      amount: price.amount,
+      currency: price.currency,
+      billingDate: subscription.nextBillingDate,
+      daysUntil,
+      trialEnding,
+      trialEndsAt,
+      accountName: account.name,
+      userName: user.name
+    });
+    const emailed = await sendEmail({ to: user.email, subject: template.subject, html: template.html, text: template.text });
+    if (emailed) channel = 'email';
+  }
+
+  await db.collection<SubscriptionReminder>('subscriptionReminders').updateOne(
+    { id: reminder.id },
+    { $set: { channel } }
+  );
+
+  return channel !== 'none';
+}
+
+// Send upcoming-bill reminders that are due. If several reminder days have passed since the
+// last run (e.g. the server was down), only the closest one is sent.
+export async function sendUpcomingBillReminders(today: string = todayISO()): Promise<number> {
+  const db = getDb();
+
+  const longestLead = await db.collection<Subscription>('subscriptions')
+    .aggregate<{ _id: null; max: number }>([
+      { $unwind: '$reminderDays' },
+      { $group: { _id: null, max: { $max: '$reminderDays' } } }
+    ])
+    .toArray();
+  const horizon = Math.max(...DEFAULT_REMINDER_DAYS, longestLead[0]?.max ?? 0);
+
+  const subscriptions = await db.collection<Subscription>('subscriptions')
+    .find({ nextBillingDate: { $gte: today, $lte: addDaysISO(today, horizon) }, ...ACTIVE_SUBSCRIPTION_FILTER })
+    .toArray();
+
+  let sent = 0;
+  for (const subscription of subscriptions) {
+    try {
+      const daysUntil = daysBetween(today, subscription.nextBillingDate);
+      const due = (subscription.reminderDays ?? DEFAULT_REMINDER_DAYS).filter(d => daysUntil <= d);
+      if (due.length === 0) continue;
+      const daysBefore = Math.min(...due);
+
+      const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: subscription.jointAccountId });
+      if (!account) continue;
+
+      const members = await db.collection<JointAccountMember>('jointAccountMembers')
+        .find({ jointAccountId: subscription.jointAccountId })
+        .toArray();
+
+      const price = priceOn(subscription, await priceChangesAfter(subscription.id, subscription.nextBillingDate), subscription.nextBillingDate);
+
+      for (const member of members) {
+        if (await remindMember(subscription, account, member.userId, price, daysBefore, daysUntil)) sent++;
+      }
+    } catch (error) {
+      console.error(`Failed to send reminders for subscription ${subscription.id}:`, error);
+    }
+  }
+  return sent;
+}
+
+async function runScheduler(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    const billed = await processDueSubscriptions();
+    if (billed > 0) console.log(`🔄 Recorded ${billed} subscription charges`);
+    const reminded = await sendUpcomingBillReminders();
+    if (reminded > 0) console.log(`📅 Sent ${reminded} upcoming bill reminders`);
+  } finally {
+    running = false;
+  }
+}
+
+// Roll subscriptions forward and send bill reminders on startup and then periodically
+export function initializeSubscriptionScheduler(): void {
+  const minutes = Number(process.env.SUBSCRIPTION_CHECK_INTERVAL_MINUTES || 60);
+
+  runScheduler().catch(err => console.error('Subscription scheduler error:', err));
+
+  schedulerTimer = setInterval(() => {
+    runScheduler().catch(err => console.error('Subscription scheduler error:', err));
+  }, minutes * 60 * 1000);
+  schedulerTimer.unref();
+
+  console.log('✅ Subscription billing scheduler initialized');
+}
@@ -0,0 +1,337 @@
+import { Filter } from 'mongodb';
+import { getDb } from '../config/database.js';
+import {
+  AuditAction,
+  BudgetingMode,
+  EnvelopeAllocation,
+  GoalContribution,
+  JointAccount,
+  MutationOutcome,
+  Transaction,
+  TransactionType,
+  TrashItem
+} from '../types/index.js';
+import { notifyJointAccountMembers } from './pushService.js';
+import { emitToJointAccount, publishToJointAccount, SocketEvents } from './socketService.js';
+import { checkBudgetAlerts } from './budgetService.js';
+import { resolveExpenseEnvelope } from './envelopeService.js';
+import { applyAutoSaveRules } from './autoSaveService.js';
+import { recordAudit } from './auditService.js';
+import { deleteToTrash } from './trashService.js';
+import { isJointAccountMember } from '../middleware/jointAccount.js';
+import { currentVersion, isClientId, versionFilter } from '../utils/mutations.js';
+
+export interface MutationUser {
+  id: string;
+  name: string;
+}
+
+export interface TransactionInput {
+  id?: string; // Client-generated ID (offline creates)
+  jointAccountId?: string;
+  amount?: number | string;
+  currency?: Transaction['currency'];
+  type?: TransactionType;
+  category?: string;
+  date?: string;
+  note?: string;
+  envelopeId?: string;
+}
+
+export interface TransactionAnnouncement {
+  actorUserId: string; // Not notified (pass '' to notify every member)
+  title?: string; // Overrides the default "<name> added ..." title
+}
+
+// Tell a joint account about a new transaction: socket event, push notification and budget alerts.
+// Notifications are fire and forget; resolves once the change is logged for sync.
+export async function announceNewTransaction(transaction: Transaction, announcement: TransactionAnnouncement): Promise<void> {
+  const { jointAccountId, amount, currency, type, category, addedByUserName } = transaction;
+
+  // Send push notifications to other members
+  const formattedAmount = Number(amount).toLocaleString();
+  const notificationTitle = announcement.title || (type === TransactionType.INCOME
+    ? `💰 ${addedByUserName} added income`
+    : `💸 ${addedByUserName} added an expense`);
+  const notificationBody = type === TransactionType.INCOME
+    ? `+${currency} ${formattedAmount} from ${category}`
+    : `${currency} ${formattedAmount} on ${category}`;
+
+  // Use absolute URL for icon so it works on mobile
+  const iconUrl = process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/icon-192.png` : 'https://money-flow-six.vercel.app/icon-192.png';
+  notifyJointAccountMembers(jointAccountId, announcement.actorUserId, {
+    title: notificationTitle,
+    body: notificationBody,
+    icon: iconUrl,
+    tag: `transaction-${transaction.id}`,
+    data: { type: 'transaction', transactionId: transaction.id, jointAccountId, url: '/transactions' }
+  }).catch(err => console.error('Notification error:', err));
+
+  checkBudgetAlerts(transaction, announcement.actorUserId).catch(err => console.error('Budget alert error:', err));
+
+  // Emit real-time update to joint account members
+  await publishToJointAccount(jointAccountId, SocketEvents.TRANSACTION_ADDED, transaction);
+}
+
+// Delete the transaction matching filter into the trash, together with its envelope allocations.
+// Goal contributions it funded stay, but lose the link until a restore. Returns null when none matched.
+export async function trashTransaction(
+  filter: Filter<Transaction>,
+  user: MutationUser
+): Promise<{ transaction: Transaction; trashItem: TrashItem } | null> {
+  const db = getDb();
+
+  const trashed = await deleteToTrash<Transaction>('transaction', filter, user, async transaction => {
+    const [allocations, contributions] = await Promise.all([
+      db.collection<EnvelopeAllocation>('envelopeAllocations').find({ transactionId: transaction.id }).toArray(),
+      db.collection<GoalContribution>('goalContributions')
+        .find({ transactionId: transaction.id }, { projection: { id: 1 } })
+        .toArray()
+    ]);
+    return { related: { envelopeAllocations: allocations }, linkedContributionIds: contributions.map(c => c.id) };
+  });
+  if (!trashed) return null;
+
+  await db.collection<EnvelopeAllocation>('envelopeAllocations').deleteMany({ transactionId: trashed.record.id });
+  await db.collection<GoalContribution>('goalContributions').updateMany(
+    { transactionId: trashed.record.id },
+    { $unset: { transactionId: '' } }
+  );
+
+  return { transaction: trashed.record, trashItem: trashed.item };
+}
+
+// Create a transaction for a member. Creating again with the same client ID returns the
+// stored transaction instead of adding a duplicate, so offline queues can be replayed.
+export async function createTransaction(input: TransactionInput, user: MutationUser): Promise<MutationOutcome<Transaction>> {
+  const db = getDb();
+  const { jointAccountId, amount, currency, type, category, date, note, envelopeId } = input;
+
+  if (!jointAccountId || !amount || !type || !category) {
+    return { ok: false, status: 400, error: 'Missing required fields: jointAccountId, amount, type, category' };
+  }
+  if (input.id !== undefined && !isClientId(input.id)) {
+    return { ok: false, status: 400, error: 'id must be a UUID' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  if (input.id) {
+    const existing = await db.collection<Transaction>('transactions').findOne({ id: input.id });
+    if (existing) {
+      return existing.jointAccountId === jointAccountId
+        ? { ok: true, status: 200, data: existing }
+        : { ok: false, status: 409, error: 'id is already in use' };
+    }
+  }
+
+  // In envelope budgeting every expense has to draw from an envelope
+  let expenseEnvelopeId: string | undefined;
+  if (type === TransactionType.EXPENSE) {
+    const account = await db.collection<JointAccount>('jointAccounts').findOne({ id: jointAccountId });
+    if (account?.budgetingMode === BudgetingMode.ENVELOPE) {
+      const resolved = await resolveExpenseEnvelope(jointAccountId, category, envelopeId);
+      if (resolved.error || !resolved.envelopeId) {
+        return { ok: false, status: 400, error: resolved.error || 'Choose an envelope for this expense' };
+      }
+      expenseEnvelopeId = resolved.envelopeId;
+    }
+  }
+
+  const now = new Date();
+  const transaction: Transaction = {
+    id: input.id || crypto.randomUUID(),
+    jointAccountId,
+    amount: Number(amount),
+    currency: currency || ('USD' as Transaction['currency']),
+    type,
+    category,
+    date: date || now.toISOString().split('T')[0],
+    note,
+    addedByUserId: user.id,
+    addedByUserName: user.name,
+    ...(expenseEnvelopeId && { envelopeId: expenseEnvelopeId }),
+    version: 1,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    await db.collection<Transaction>('transactions').insertOne(transaction);
+  } catch (error: any) {
+    // The same client ID raced in from another request
+    if (error?.code !== 11000) throw error;
+    const existing = await db.collection<Transaction>('transactions').findOne({ id: transaction.id });
+    return existing?.jointAccountId === jointAccountId
+      ? { ok: true, status: 200, data: existing }
+      : { ok: false, status: 409, error: 'id is already in use' };
+  }
+
+  await recordAudit({
+    jointAccountId,
+    entity: 'transaction',
+    entityId: transaction.id,
+    action: AuditAction.CREATE,
+    actor: user,
+    after: transaction
+  });
+
+  // Socket event, push notifications to other members and budget alerts
+  await announceNewTransaction(transaction, { actorUserId: user.id });
+
+  // Fund goals from matching auto-save rules (imported history doesn't trigger these)
+  applyAutoSaveRules(transaction).catch(err => console.error('Auto-save error:', err));
+
+  return { ok: true, status: 201, data: transaction };
+}
+
+// Update a transaction. With baseVersion set, the update only applies if nobody changed the
+// transaction since that version; otherwise the current copy comes back as a 409.
+export async function updateTransaction(
+  transactionId: string,
+  input: TransactionInput,
+  user: MutationUser,
+  baseVersion?: number
+): Promise<MutationOutcome<Transaction>> {
+  const db = getDb();
+  const { amount, currency, type, category, date, note, envelopeId } = input;
+
+  const transaction = await db.collection<Transaction>('transactions')
+    .findOne({ id: transactionId });
+
+  if (!transaction) {
+    return { ok: false, status: 404, error: 'Transaction not found' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(transaction.jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  if (baseVersion !== undefined && baseVersion !== currentVersion(transaction)) {
+    return { ok: false, status: 409, error: 'This transaction was changed by someone else', current: transaction };
+  }
+
+  const updateData: Partial<Transaction> = { updatedAt: new Date(), version: currentVersion(transaction) + 1 };
+  if (amount !== undefined) updateData.amount = Number(amount);
+  if (currency) updateData.currency = currency;
+  if (type) updateData.type = type;
+  if (category) updateData.category = category;
+  if (date) updateData.date = date;
+  if (note !== undefined) updateData.note = note;
+
+  // Re-pick the envelope when an expense changes category or envelope
+  const nextType = updateData.type || transaction.type;
+  const unsetData: Partial<Record<keyof Transaction, ''>> = {};
+  if (nextType === TransactionType.INCOME) {
+    if (transaction.envelopeId) unsetData.envelopeId = '';
+  } else if (envelopeId || category || type) {
+    const account = await db.collection<JointAccount>('jointAccounts')
+      .findOne({ id: transaction.jointAccountId });
+    if (account?.budgetingMode === BudgetingMode.ENVELOPE) {
+      const resolved = await resolveExpenseEnvelope(
+        transaction.jointAccountId,
+        updateData.category || transaction.category,
+        envelopeId || (category ? undefined : transaction.envelopeId)
+      );
+      if (resolved.error || !resolved.envelopeId) {
+        return { ok: false, status: 400, error: resolved.error || 'Choose an envelope for this expense' };
+      }
+      updateData.envelopeId = resolved.envelopeId;
+    }
+  }
+
+  const result = await db.collection<Transaction>('transactions').updateOne(
+    { id: transactionId, ...versionFilter(currentVersion(transaction)) },
+    { $set: updateData, ...(Object.keys(unsetData).length > 0 && { $unset: unsetData }) }
+  );
+
+  if (result.matchedCount === 0) {
+    const current = await db.collection<Transaction>('transactions').findOne({ id: transactionId });
+    return current
+      ? { ok: false, status: 409, error: 'This transaction was changed by someone else', current }
+      : { ok: false, status: 404, error: 'Transaction not found' };
+  }
+
+  // Income that became an expense can no longer be allocated
+  if (nextType === TransactionType.EXPENSE && transaction.type === TransactionType.INCOME) {
+    await db.collection<EnvelopeAllocation>('envelopeAllocations').deleteMany({ transactionId });
+  }
+
+  const updated = await db.collection<Transaction>('transactions')
+    .findOne({ id: transactionId });
+
+  if (!updated) {
+    return { ok: false, status: 404, error: 'Transaction not found' };
+  }
+
+  await recordAudit({
+    jointAccountId: transaction.jointAccountId,
+    entity: 'transaction',
+    entityId: transactionId,
+    action: AuditAction.UPDATE,
+    actor: user,
+    before: transaction,
+    after: updated
+  });
+
+  // Emit real-time update to joint account members
+  await publishToJointAccount(transaction.jointAccountId, SocketEvents.TRANSACTION_UPDATED, updated);
+  checkBudgetAlerts(updated, user.id).catch(err => console.error('Budget alert error:', err));
+
+  return { ok: true, status: 200, data: updated };
+}
+
+// Delete a transaction (it goes to the trash and can be restored), optionally only if it's still at baseVersion
+export async function deleteTransaction(
+  transactionId: string,
+  user: MutationUser,
+  baseVersion?: number
+): Promise<MutationOutcome<Transaction>> {
+  const db = getDb();
+
+  const transaction = await db.collection<Transaction>('transactions')
+    .findOne({ id: transactionId });
+
+  if (!transaction) {
+    return { ok: false, status: 404, error: 'Transaction not found' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(transaction.jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  const trashed = await trashTransaction(
+    { id: transactionId, ...(baseVersion !== undefined && versionFilter(baseVersion)) },
+    user
+  );
+  if (!trashed) {
+    const current = await db.collection<Transaction>('transactions').findOne({ id: transactionId });
+    return current
+      ? { ok: false, status: 409, error: 'This transaction was changed by someone else', current }
+      : { ok: false, status: 404, error: 'Transaction not found' };
+  }
+  const { transaction: deleted, trashItem } = trashed;
+
+  await recordAudit({
+    jointAccountId: transaction.jointAccountId,
+    entity: 'transaction',
+    entityId: transactionId,
+    action: AuditAction.DELETE,
+    actor: user,
+    before: deleted
+  });
+
+  // Emit real-time update to joint account members
+  await publishToJointAccount(transaction.jointAccountId, SocketEvents.TRANSACTION_DELETED, {
+    transactionId,
+    jointAccountId: transaction.jointAccountId,
+    trashId: trashItem.id
+  });
+
+  return { ok: true, status: 200, data: deleted };
+}
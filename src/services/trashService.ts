@@ -0,0 +1,211 @@
+import { Filter } from 'mongodb';
+import { getDb } from '../config/database.js';
+import {
+  AuditAction,
+  Goal,
+  GoalContribution,
+  MutationOutcome,
+  Subscription,
+  SubscriptionStatus,
+  Transaction,
+  TrashItem
+} from '../types/index.js';
+import { publishToJointAccount, SocketEvents } from './socketService.js';
+import { recordAudit } from './auditService.js';
+import { isJointAccountMember } from '../middleware/jointAccount.js';
+import { currentVersion } from '../utils/mutations.js';
+import { rollForwardBillingDate } from '../utils/billing.js';
+import { todayISO } from '../utils/dates.js';
+
+let purgeTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+const COLLECTIONS: Record<TrashItem['entity'], string> = {
+  transaction: 'transactions',
+  goal: 'goals',
+  subscription: 'subscriptions'
+};
+
+// Socket event that announces a restored record, like a newly created one
+const RESTORE_EVENTS: Record<TrashItem['entity'], string> = {
+  transaction: SocketEvents.TRANSACTION_ADDED,
+  goal: SocketEvents.GOAL_CREATED,
+  subscription: SocketEvents.SUBSCRIPTION_CREATED
+};
+
+export function trashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS || 30);
+  return Number.isFinite(days) && days > 0 ? days : 30;
+}
+
+// When a trash item is purged for good
+export function purgeDateOf(item: Pick<TrashItem, 'deletedAt'>): Date {
+  return new Date(new Date(item.deletedAt).getTime() + trashRetentionDays() * 24 * 60 * 60 * 1000);
+}
+
+export interface TrashInput {
+  entity: TrashItem['entity'];
+  record: Transaction | Goal | Subscription;
+  related?: Record<string, any[]>;
+  linkedContributionIds?: string[];
+}
+
+// Keep a deleted record (and what was removed with it) so it can be restored
+async function moveToTrash(input: TrashInput, user: { id: string; name: string }): Promise<TrashItem> {
+  const { _id, ...record } = input.record as typeof input.record & { _id?: unknown };
+  const related: Record<string, any[]> = {};
+  for (const [collection, docs] of Object.entries(input.related || {})) {
+    if (docs.length > 0) related[collection] = docs.map(({ _id: _ignored, ...doc }) => doc);
+  }
+
+  const item: TrashItem = {
+    id: crypto.randomUUID(),
+    jointAccountId: record.jointAccountId,
+    entity: input.entity,
+    recordId: record.id,
+    record,
+    related,
+    ...(input.linkedContributionIds?.length && { linkedContributionIds: input.linkedContributionIds }),
+    deletedByUserId: user.id,
+    deletedByUserName: user.name,
+    deletedAt: new Date()
+  };
+
+  await getDb().collection<TrashItem>('trash').insertOne(item);
+  return item;
+}
+
+// Delete the record matching filter and keep it in the trash, with the related documents
+// collectRelated gathers once it's gone. The trash gets the document that was actually deleted,
+// and the record is put back if the trash write fails. Callers delete the related documents
+// afterwards. Returns null when nothing matched.
+export async function deleteToTrash<T extends Transaction | Goal | Subscription>(
+  entity: TrashItem['entity'],
+  filter: Filter<T>,
+  user: { id: string; name: string },
+  collectRelated?: (record: T) => Promise<Pick<TrashInput, 'related' | 'linkedContributionIds'>>
+): Promise<{ record: T; item: TrashItem } | null> {
+  const collection = getDb().collection<T>(COLLECTIONS[entity]);
+
+  const record = await collection.findOneAndDelete(filter) as T | null;
+  if (!record) return null;
+
+  try {
+    const extra = collectRelated ? await collectRelated(record) : {};
+    const item = await moveToTrash({ entity, record, ...extra }, user);
+    return { record, item };
+  } catch (error) {
+    await getDb().collection(COLLECTIONS[entity]).insertOne({ ...record });
+    throw error;
+  }
+}
+
+// Put a trashed record back with everything that was removed along with it.
+// Restored records get a new version, so offline edits made against the deleted copy conflict.
+export async function restoreFromTrash(trashId: string, user: { id: string; name: string }): Promise<MutationOutcome<TrashItem>> {
+  const db = getDb();
+
+  const item = await db.collection<TrashItem>('trash').findOne({ id: trashId });
+
+  if (!item) {
+    return { ok: false, status: 404, error: 'Item not found in the trash' };
+  }
+
+  // Verify membership
+  if (!(await isJointAccountMember(item.jointAccountId, user.id))) {
+    return { ok: false, status: 403, error: 'You are not a member of this joint account' };
+  }
+
+  // Take the item out of the trash first, so two restores can't both put it back
+  const claimed = await db.collection<TrashItem>('trash').deleteOne({ id: trashId });
+  if (claimed.deletedCount === 0) {
+    return { ok: false, status: 404, error: 'Item not found in the trash' };
+  }
+
+  const now = new Date();
+  const record: Transaction | Goal | Subscription = {
+    ...item.record,
+    version: currentVersion(item.record) + 1,
+    updatedAt: now
+  };
+
+  // Cycles that passed while a subscription was in the trash aren't billed
+  if (item.entity === 'subscription') {
+    const subscription = record as Subscription;
+    if ((subscription.status || SubscriptionStatus.ACTIVE) === SubscriptionStatus.ACTIVE) {
+      subscription.nextBillingDate = rollForwardBillingDate(subscription.nextBillingDate, subscription, todayISO());
+    }
+  }
+
+  try {
+    await db.collection(COLLECTIONS[item.entity]).insertOne({ ...record });
+  } catch (error: any) {
+    await db.collection<TrashItem>('trash').insertOne(item);
+    if (error?.code === 11000) {
+      return { ok: false, status: 409, error: 'A record with this id already exists' };
+    }
+    throw error;
+  }
+
+  for (const [collection, docs] of Object.entries(item.related)) {
+    try {
+      await db.collection(collection).insertMany(docs.map(doc => ({ ...doc })), { ordered: false });
+    } catch (error: any) {
+      // Anything already back in place is left as it is
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  if (item.linkedContributionIds?.length) {
+    await db.collection<GoalContribution>('goalContributions').updateMany(
+      { id: { $in: item.linkedContributionIds }, transactionId: { $exists: false } },
+      { $set: { transactionId: item.recordId } }
+    );
+  }
+
+  await recordAudit({
+    jointAccountId: item.jointAccountId,
+    entity: item.entity,
+    entityId: item.recordId,
+    action: AuditAction.RESTORE,
+    actor: user,
+    after: record
+  });
+
+  // Members see the record come back like a newly created one
+  await publishToJointAccount(item.jointAccountId, RESTORE_EVENTS[item.entity], record);
+
+  return { ok: true, status: 200, data: { ...item, record } };
+}
+
+// Delete trash items older than TRASH_RETENTION_DAYS
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - trashRetentionDays() * 24 * 60 * 60 * 1000);
+  const result = await getDb().collection<TrashItem>('trash').deleteMany({ deletedAt: { $lt: cutoff } });
+  return result.deletedCount;
+}
+
+async function runPurge(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    const purged = await purgeExpiredTrash();
+    if (purged > 0) console.log(`🗑️ Purged ${purged} items from the trash`);
+  } finally {
+    running = false;
+  }
+}
+
+// Purge expired trash on startup and then periodically
+export function initializeTrashPurge(): void {
+  const minutes = Number(process.env.TRASH_PURGE_INTERVAL_MINUTES || 60);
+
+  runPurge().catch(err => console.error('Trash purge error:', err));
+
+  purgeTimer = setInterval(() => {
+    runPurge().catch(err => console.error('Trash purge error:', err));
+  }, minutes * 60 * 1000);
+  purgeTimer.unref();
+
+  console.log(`✅ Trash purge initialized (items kept ${trashRetentionDays()} days)`);
+}
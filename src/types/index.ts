@@ -43,6 +43,72 @@ export enum InviteStatus {
   DECLINED = 'DECLINED'
 }
 
+// How a joint account budgets its money
+export enum BudgetingMode {
+  CATEGORY = 'CATEGORY', // Monthly limits per category (default)
+  ENVELOPE = 'ENVELOPE' // Zero-based: income is allocated into envelopes that expenses draw down
+}
+
+// How often a recurring rule posts a transaction
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  BIWEEKLY = 'BIWEEKLY',
+  MONTHLY = 'MONTHLY',
+  YEARLY = 'YEARLY'
+}
+
+// Billing cycle of a subscription ('Custom' uses customInterval)
+export type SubscriptionCycle =
+  | 'Weekly'
+  | 'Biweekly'
+  | 'Monthly'
+  | 'Quarterly'
+  | 'Semiannual'
+  | 'Yearly'
+  | 'Custom';
+
+export enum SubscriptionStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED', // Not billed or reminded until resumed
+  CANCELLED = 'CANCELLED' // Kept for history only
+}
+
+export enum GoalContributionType {
+  DEPOSIT = 'DEPOSIT',
+  WITHDRAWAL = 'WITHDRAWAL'
+}
+
+export enum AuditAction {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE', // Moved to the trash
+  RESTORE = 'RESTORE' // Brought back from the trash
+}
+
+// How an auto-save rule works out what to put toward a goal
+export enum AutoSaveRuleType {
+  PERCENT_OF_INCOME = 'PERCENT_OF_INCOME', // A share of matching income
+  ROUND_UP = 'ROUND_UP' // The difference between an expense and the next multiple of roundTo
+}
+
+// How a bank statement expresses money in vs money out
+export enum SignConvention {
+  NEGATIVE_IS_EXPENSE = 'NEGATIVE_IS_EXPENSE', // -12.50 means money went out
+  POSITIVE_IS_EXPENSE = 'POSITIVE_IS_EXPENSE', // credit card style: charges are positive
+  SEPARATE_COLUMNS = 'SEPARATE_COLUMNS' // debit and credit amounts in their own columns
+}
+
+// Supported bank statement file formats
+export enum StatementFormat {
+  CSV = 'CSV',
+  OFX = 'OFX',
+  QFX = 'QFX',
+  QIF = 'QIF',
+  CAMT053 = 'CAMT053', // ISO 20022 bank-to-customer statement (XML)
+  MT940 = 'MT940' // SWIFT customer statement
+}
+
 // User document (extends Better Auth user)
 export interface User {
   id: string;
@@ -81,6 +147,8 @@ export interface JointAccount {
   updatedAt: Date;
   primaryCurrency: Currency;
   adminUserId: string; // The user who created the account
+  budgetingMode?: BudgetingMode; // Defaults to CATEGORY
+  version?: number; // Bumped on every settings change (missing means 1)
 }
 
 // Joint Account Membership (links users to joint accounts)
@@ -111,11 +179,42 @@ export interface Transaction {
   currency: Currency;
   type: TransactionType;
   category: Category | string;
-  date: string; // ISO date string
+  date: string; // ISO date string (booking date for imported entries)
+  valueDate?: string; // ISO date the bank applied the amount, when the statement provides it
   note?: string;
   // User tracking for joint accounts
   addedByUserId: string;
   addedByUserName: string;
+  // Statement import tracking (used to skip entries that were already imported)
+  externalId?: string;
+  importSource?: StatementFormat;
+  envelopeId?: string; // Envelope an expense draws from (envelope budgeting mode)
+  recurringRuleId?: string; // Set when posted by a recurring rule
+  subscriptionId?: string; // Set when posted for a subscription charge
+  version?: number; // Bumped on every edit (missing means 1)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Rule that posts a transaction on a schedule (rent, salary, allowances...)
+export interface RecurringRule {
+  id: string;
+  jointAccountId: string;
+  amount: number;
+  currency: Currency;
+  type: TransactionType;
+  category: Category | string;
+  note?: string;
+  envelopeId?: string;
+  frequency: RecurrenceFrequency;
+  startDate: string; // ISO date of the first occurrence; later ones are counted from it
+  endDate?: string; // Last date an occurrence may fall on
+  maxOccurrences?: number; // Stop after this many occurrences
+  nextOccurrence: number; // Index of the next occurrence to post (0 = startDate)
+  nextRunDate: string | null; // Date of that occurrence, null once the rule has finished
+  active: boolean;
+  createdByUserId: string;
+  createdByUserName: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -126,9 +225,46 @@ export interface Goal {
   jointAccountId: string;
   name: string;
   targetAmount: number;
-  currentAmount: number;
+  currentAmount: number; // Sum of the goal's contributions
   currency: Currency;
   deadline?: string;
+  version?: number; // Bumped on every edit and contribution (missing means 1)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Whether a goal will reach its target by the deadline at the current savings rate
+export type GoalStatus = 'ON_TRACK' | 'AT_RISK' | 'UNREALISTIC';
+
+// Money put into (or taken out of) a goal by a member
+export interface GoalContribution {
+  id: string;
+  goalId: string;
+  jointAccountId: string;
+  type: GoalContributionType;
+  amount: number; // Always positive; type says which way it went
+  date: string; // ISO date
+  note?: string;
+  transactionId?: string; // Linked transaction, e.g. the transfer to the savings account
+  openingBalance?: boolean; // The amount a goal already had before the ledger existed
+  autoSaveRuleId?: string; // Rule that added it automatically
+  userId: string;
+  userName: string;
+  createdAt: Date;
+}
+
+// Rule that funds a goal automatically from new transactions
+export interface AutoSaveRule {
+  id: string;
+  jointAccountId: string;
+  goalId: string;
+  type: AutoSaveRuleType;
+  percent?: number; // PERCENT_OF_INCOME: 10 means 10%
+  roundTo?: number; // ROUND_UP: round expenses up to a multiple of this
+  category?: Category | string; // Only transactions in this category (any when missing)
+  active: boolean;
+  createdByUserId: string;
+  createdByUserName: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -140,12 +276,235 @@ export interface Subscription {
   name: string;
   amount: number;
   currency: Currency;
-  cycle: 'Monthly' | 'Yearly';
+  cycle: SubscriptionCycle;
+  customInterval?: { every: number; unit: 'days' | 'months' }; // Required when cycle is 'Custom'
+  status?: SubscriptionStatus; // Missing means ACTIVE
+  statusChangedAt?: Date;
+  trialEndsAt?: string; // ISO date the free trial ends; the first paid charge is on this date
+  nextBillingDate: string;
+  billingDay?: number; // Day of month it bills on, so month-end dates don't drift
+  postCharges?: boolean; // Create an EXPENSE transaction for each charge
+  category?: Category | string; // Category of posted charges (defaults to Other)
+  reminderDays?: number[]; // Days before nextBillingDate to remind members (defaults to [3, 1])
+  createdByUserId?: string;
+  createdByUserName?: string;
+  version?: number; // Bumped on every edit (missing means 1)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Upcoming-bill reminder sent to one member (unique per billing date and reminder day)
+export interface SubscriptionReminder {
+  id: string;
+  subscriptionId: string;
+  jointAccountId: string;
+  userId: string;
+  billingDate: string;
+  daysBefore: number;
+  channel: 'push' | 'email' | 'none'; // How it was delivered ('none' when neither worked)
+  sentAt: Date;
+}
+
+// One billing of a subscription (history, and the claim that stops a date being charged twice)
+export interface SubscriptionCharge {
+  id: string;
+  subscriptionId: string;
+  jointAccountId: string;
+  billingDate: string; // ISO date the subscription was billed on
+  amount: number;
+  currency: Currency;
+  transactionId?: string; // Expense posted for this charge, when postCharges is on
+  createdAt: Date;
+}
+
+// Change of a subscription's price. Charges billed before effectiveDate keep the previous price.
+export interface SubscriptionPriceChange {
+  id: string;
+  subscriptionId: string;
+  jointAccountId: string;
+  previousAmount: number;
+  previousCurrency: Currency;
+  amount: number;
+  currency: Currency;
+  effectiveDate: string; // ISO date the new price applies from
+  changePercent: number | null; // null when the currency changed
+  changedByUserId: string;
+  changedByUserName: string;
+  createdAt: Date;
+}
+
+// Subscription suggested from recurring charges in a joint account's transactions
+export interface SubscriptionProposal {
+  id: string;
+  jointAccountId: string;
+  merchantKey: string; // Normalized merchant/note the charges were grouped by
+  name: string;
+  amount: number;
+  currency: Currency;
+  cycle: SubscriptionCycle;
+  customInterval?: { every: number; unit: 'days' | 'months' };
   nextBillingDate: string;
+  confidence: number; // 0..1
+  occurrences: number;
+  transactionIds: string[];
+  lastChargedAt: string;
+  status: 'PENDING' | 'ACCEPTED' | 'DISMISSED';
+  subscriptionId?: string; // Created when accepted
+  decidedByUserId?: string;
+  decidedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Exchange rate document - units of `currency` per 1 unit of `base` on `date`
+export interface ExchangeRate {
+  base: Currency;
+  currency: Currency;
+  date: string; // ISO date string
+  rate: number;
+  source: string;
+  createdAt: Date;
+}
+
+// Monthly budget for a category (built-in or custom) in a joint account
+export interface Budget {
+  id: string;
+  jointAccountId: string;
+  category: Category | string;
+  monthlyLimit: number;
+  currency: Currency;
+  rollover: boolean; // Carry unspent amounts into the next month
+  startMonth: string; // YYYY-MM, first month the budget applies to (rollover starts here)
+  alertsSent?: Record<string, number[]>; // month -> thresholds already notified (e.g. { '2024-03': [80] })
+  createdByUserId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Envelope in a zero-based budget. Amounts are in the joint account's primary currency.
+export interface Envelope {
+  id: string;
+  jointAccountId: string;
+  name: string;
+  categories: string[]; // Expenses in these categories draw from this envelope by default
+  createdByUserId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Part of an income transaction assigned to an envelope
+export interface EnvelopeAllocation {
+  id: string;
+  jointAccountId: string;
+  envelopeId: string;
+  transactionId: string; // The INCOME transaction being allocated
+  amount: number;
+  allocatedByUserId: string;
+  allocatedByUserName: string;
+  createdAt: Date;
+}
+
+// Money moved between envelopes (kept as an audit trail, never edited)
+export interface EnvelopeTransfer {
+  id: string;
+  jointAccountId: string;
+  fromEnvelopeId: string;
+  toEnvelopeId: string;
+  amount: number;
+  note?: string;
+  transferredByUserId: string;
+  transferredByUserName: string;
+  createdAt: Date;
+}
+
+// One change to a joint account, in the order clients should apply them
+export interface ChangeLogEntry {
+  jointAccountId: string;
+  seq: number; // Increases by one per change within a joint account
+  event: string; // The socket event that announced it, e.g. 'transaction:deleted'
+  entity: string; // e.g. 'transaction', 'goal', 'subscription'
+  data: any; // The socket event's payload
+  createdAt: Date;
+}
+
+// Result of a create, update or delete, shared by the HTTP routes and offline mutation batches
+export type MutationOutcome<T> =
+  | { ok: true; status: 200 | 201; data: T }
+  | { ok: false; status: 400 | 403 | 404 | 409; error: string; current?: T }; // current: server copy on a conflict
+
+// One mutation from a client's offline queue
+export interface QueuedMutation {
+  idempotencyKey: string; // Unique per mutation; replaying it returns the first result
+  entity: 'transaction' | 'goal' | 'subscription';
+  action: 'create' | 'update' | 'delete';
+  id: string; // Client-generated for creates
+  data?: Record<string, any>;
+  baseVersion?: number; // Version the client edited; a different server version is a conflict
+}
+
+// What happened to one queued mutation
+export interface MutationReport {
+  idempotencyKey: string;
+  entity: QueuedMutation['entity'];
+  action: QueuedMutation['action'];
+  id: string;
+  result: 'APPLIED' | 'CONFLICT' | 'NOT_FOUND' | 'REJECTED';
+  status: number;
+  data?: unknown; // The saved record
+  current?: unknown; // The server copy, on a conflict
+  error?: string;
+  replayed?: boolean; // Already applied by an earlier attempt
+}
+
+// Stored response of a request made with an idempotency key
+export interface IdempotencyRecord {
+  userId: string;
+  key: string;
+  scope: string; // What the key was used for, e.g. "POST /api/transactions"
+  state: 'PENDING' | 'DONE';
+  statusCode?: number;
+  body?: unknown;
+  createdAt: Date;
+}
+
+// A deleted transaction, goal or subscription, kept until TRASH_RETENTION_DAYS have passed
+export interface TrashItem {
+  id: string;
+  jointAccountId: string;
+  entity: 'transaction' | 'goal' | 'subscription';
+  recordId: string;
+  record: Transaction | Goal | Subscription; // The record as it was when deleted
+  related: Record<string, any[]>; // Documents removed along with it, by collection
+  linkedContributionIds?: string[]; // Goal contributions that pointed at a deleted transaction
+  deletedByUserId: string;
+  deletedByUserName: string;
+  deletedAt: Date;
+}
+
+// Kinds of joint account records the audit log covers
+export type AuditEntity = 'transaction' | 'goal' | 'subscription' | 'member' | 'invite';
+
+// One field that changed in an audited write
+export interface AuditFieldChange {
+  field: string;
+  before: unknown; // null when the record was created or the field was unset
+  after: unknown; // null when the record was deleted or the field was removed
+}
+
+// Who did what to a joint account record, and when
+export interface AuditLogEntry {
+  id: string;
+  jointAccountId: string;
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  actorUserId: string; // 'system' for scheduled jobs
+  actorUserName: string;
+  changes: AuditFieldChange[];
+  note?: string; // e.g. 'Recurring rule', 'Bulk delete'
+  createdAt: Date;
+}
+
 // Custom Category document
 export interface CustomCategory {
   id: string;
@@ -154,6 +513,57 @@ export interface CustomCategory {
   createdAt: Date;
 }
 
+// CSV column mapping (columns are header names, or zero-based indexes when hasHeader is false)
+export interface ImportColumnMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: string | number;
+  dateFormat: string; // e.g. YYYY-MM-DD, DD/MM/YYYY, MM/DD/YYYY
+  amountColumn?: string | number;
+  debitColumn?: string | number;
+  creditColumn?: string | number;
+  signConvention: SignConvention;
+  decimalSeparator: '.' | ',';
+  noteColumn?: string | number;
+  categoryColumn?: string | number;
+  defaultCategory?: Category | string;
+  currency?: Currency;
+}
+
+// Saved mapping profile (one per bank, reusable by all account members)
+export interface ImportMappingProfile extends ImportColumnMapping {
+  id: string;
+  jointAccountId: string;
+  name: string;
+  createdByUserId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A statement line mapped to transaction fields, before it is saved
+export interface ImportRow {
+  line: number;
+  date: string;
+  valueDate?: string;
+  amount: number;
+  type: TransactionType;
+  category: Category | string;
+  note?: string;
+  currency?: Currency;
+  externalId?: string; // Bank's unique id for the entry (OFX FITID, camt/MT940 entry reference, QIF fingerprint)
+  duplicate?: boolean; // Set in previews when the entry was already imported
+}
+
+export interface ImportRowError {
+  line: number;
+  message: string;
+}
+
+export interface ImportParseResult {
+  rows: ImportRow[];
+  errors: ImportRowError[];
+}
+
 // API Response types
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -0,0 +1,102 @@
+import { Subscription, SubscriptionCycle, SubscriptionStatus } from '../types/index.js';
+import { addDaysISO, addMonthsISO } from './dates.js';
+
+type BillingSchedule = Pick<Subscription, 'cycle' | 'customInterval' | 'billingDay'>;
+
+export const SUBSCRIPTION_CYCLES: SubscriptionCycle[] = [
+  'Weekly',
+  'Biweekly',
+  'Monthly',
+  'Quarterly',
+  'Semiannual',
+  'Yearly',
+  'Custom'
+];
+
+const CYCLE_MONTHS: Partial<Record<SubscriptionCycle, number>> = {
+  Monthly: 1,
+  Quarterly: 3,
+  Semiannual: 6,
+  Yearly: 12
+};
+
+const CYCLE_DAYS: Partial<Record<SubscriptionCycle, number>> = {
+  Weekly: 7,
+  Biweekly: 14
+};
+
+export const AVERAGE_DAYS_PER_MONTH = 365.25 / 12;
+
+// Length of one billing cycle, either in days or in months
+export function cycleLength(schedule: Pick<Subscription, 'cycle' | 'customInterval'>): { every: number; unit: 'days' | 'months' } {
+  if (schedule.cycle === 'Custom' && schedule.customInterval) return schedule.customInterval;
+  if (CYCLE_DAYS[schedule.cycle]) return { every: CYCLE_DAYS[schedule.cycle]!, unit: 'days' };
+  return { every: CYCLE_MONTHS[schedule.cycle] ?? 1, unit: 'months' };
+}
+
+// Validate a cycle and its custom interval; returns an error message or null
+export function validateBillingCycle(cycle: unknown, customInterval: unknown): string | null {
+  if (!SUBSCRIPTION_CYCLES.includes(cycle as SubscriptionCycle)) {
+    return `cycle must be one of: ${SUBSCRIPTION_CYCLES.join(', ')}`;
+  }
+  if (cycle !== 'Custom') return null;
+
+  const interval = customInterval as Subscription['customInterval'];
+  if (!interval || !Number.isInteger(interval.every) || interval.every < 1 || !['days', 'months'].includes(interval.unit)) {
+    return 'Custom cycles need customInterval: { every: <whole number>, unit: "days" | "months" }';
+  }
+  return null;
+}
+
+// Billing date `cycles` cycles away from `date`. For month-based cycles `billingDay` keeps
+// month-end subscriptions on their original day (31st -> 29th Feb -> 31st Mar) instead of drifting.
+function shiftBillingDate(date: string, schedule: BillingSchedule, cycles: number): string {
+  const { every, unit } = cycleLength(schedule);
+  if (unit === 'days') return addDaysISO(date, every * cycles);
+
+  const next = addMonthsISO(date, every * cycles);
+  if (!schedule.billingDay) return next;
+
+  const [year, month] = next.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${next.slice(0, 8)}${String(Math.min(schedule.billingDay, lastDay)).padStart(2, '0')}`;
+}
+
+// Next billing date after `date`
+export function nextBillingDateAfter(date: string, schedule: BillingSchedule): string {
+  return shiftBillingDate(date, schedule, 1);
+}
+
+// Billing date one cycle before `date`, i.e. where the cycle that `date` bills for started
+export function previousBillingDateBefore(date: string, schedule: BillingSchedule): string {
+  return shiftBillingDate(date, schedule, -1);
+}
+
+// First billing date on or after `today`, skipping missed cycles without charging them
+export function rollForwardBillingDate(date: string, schedule: BillingSchedule, today: string): string {
+  let next = date;
+  while (next < today) next = nextBillingDateAfter(next, schedule);
+  return next;
+}
+
+// What a subscription costs per month on average, in its own currency
+export function monthlyEquivalent(amount: number, schedule: Pick<Subscription, 'cycle' | 'customInterval'>): number {
+  const { every, unit } = cycleLength(schedule);
+  return unit === 'months' ? amount / every : (amount / every) * AVERAGE_DAYS_PER_MONTH;
+}
+
+// Day of month a subscription bills on, taken from a billing date
+export function billingDayOf(date: string): number {
+  return Number(date.slice(8, 10));
+}
+
+export function isSubscriptionActive(subscription: Pick<Subscription, 'status'>): boolean {
+  return !subscription.status || subscription.status === SubscriptionStatus.ACTIVE;
+}
+
+// Human readable cycle, e.g. "Monthly" or "every 10 days"
+export function describeCycle(schedule: Pick<Subscription, 'cycle' | 'customInterval'>): string {
+  if (schedule.cycle !== 'Custom') return schedule.cycle;
+  const { every, unit } = cycleLength(schedule);
+  return `every ${every} ${every === 1 ? unit.slice(0, -1) : unit}`;
+}
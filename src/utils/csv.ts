@@ -0,0 +1,65 @@
+/**
+ * Minimal RFC 4180 CSV parser - handles quoted fields, escaped quotes ("")
+ * and newlines inside quotes. Returns rows as arrays of raw cell strings.
+ */
+export function parseCsv(content: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM that some banks prepend to their exports
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row without a trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop fully blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// Format one CSV line, quoting cells that contain the delimiter, quotes or newlines
+export function toCsvLine(values: Array<string | number | null | undefined>, delimiter = ','): string {
+  return values
+    .map(value => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(delimiter) + '\r\n';
+}
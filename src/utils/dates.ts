@@ -0,0 +1,49 @@
+// Date helpers for ISO date strings (YYYY-MM-DD) and month keys (YYYY-MM)
+
+export function todayISO(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+// "2024-03-15" -> "2024-03"
+export function monthKey(date: string | Date): string {
+  const iso = typeof date === 'string' ? date : date.toISOString();
+  return iso.slice(0, 7);
+}
+
+export function isISODate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+export function isMonthKey(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+// addMonthsToKey("2024-12", 1) -> "2025-01"
+export function addMonthsToKey(month: string, count: number): string {
+  const [year, m] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, m - 1 + count, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+// First day of the month and first day of the next month, for $gte / $lt string range queries
+export function monthRange(month: string): { start: string; end: string } {
+  return { start: `${month}-01`, end: `${addMonthsToKey(month, 1)}-01` };
+}
+
+// addDaysISO("2024-02-28", 2) -> "2024-03-01"
+export function addDaysISO(date: string, days: number): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+// Same day N months later, clamped to the end of shorter months: addMonthsISO("2024-01-31", 1) -> "2024-02-29"
+export function addMonthsISO(date: string, months: number): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().split('T')[0];
+}
+
+// Whole days from one ISO date to another: daysBetween("2024-03-01", "2024-03-04") -> 3
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { MutationOutcome } from '../types/index.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Client-generated IDs must be UUIDs, like the ones the server generates
+export function isClientId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+// Documents written before versioning have no version field and count as version 1
+export function currentVersion(doc: { version?: number }): number {
+  return doc.version ?? 1;
+}
+
+// Filter that only matches a document still at the given version. Writes use it to only
+// replace the version they read, so a concurrent edit is reported instead of silently lost.
+export function versionFilter(version: number) {
+  return version === 1 ? { $or: [{ version: 1 }, { version: { $exists: false } }] } : { version };
+}
+
+// $set fields for an update pipeline that bumps the version of whatever document it matches.
+// Server-side writes (scheduler, cascades) use it so clients holding the old version get a 409.
+export function bumpVersion() {
+  return { version: { $add: [{ $ifNull: ['$version', 1] }, 1] } };
+}
+
+// Read a baseVersion precondition; undefined when absent, null when invalid
+export function parseBaseVersion(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+// ETag of a versioned document, e.g. "3"
+export function versionETag(doc: { version?: number }): string {
+  return `"${currentVersion(doc)}"`;
+}
+
+// Send a record's ETag on a read so the client can use it as If-Match. The response is marked
+// no-store: the payload can hold data the version doesn't cover (e.g. members), so a cached
+// copy revalidated by ETag could come back as a stale 304.
+export function setReadETag(res: Response, doc: { version?: number }): void {
+  res.setHeader('ETag', versionETag(doc));
+  res.setHeader('Cache-Control', 'no-store');
+}
+
+export const INVALID_PRECONDITION_ERROR = 'If-Match must be an ETag returned by the API, or baseVersion a positive integer';
+
+// Read the version a write is based on, from an If-Match header (an ETag this API sent) or a
+// baseVersion in the body or query. undefined when there's no precondition, null when invalid.
+export function parsePrecondition(req: Request): number | undefined | null {
+  const ifMatch = req.get('If-Match');
+  if (ifMatch !== undefined) {
+    if (ifMatch.trim() === '*') return undefined;
+    const match = /^(?:W\/)?"(\d+)"$/.exec(ifMatch.trim());
+    return match ? parseBaseVersion(match[1]) : null;
+  }
+  return parseBaseVersion(req.body?.baseVersion ?? req.query.baseVersion);
+}
+
+// Send a mutation outcome in the API's usual { success, data | error } shape.
+// Conflicts include the server copy so the client can merge; the ETag is that of the copy sent.
+export function sendOutcome<T>(res: Response, outcome: MutationOutcome<T>, message?: string) {
+  const copy = outcome.ok ? (message ? undefined : outcome.data) : outcome.current;
+  if (copy) res.setHeader('ETag', versionETag(copy as { version?: number }));
+
+  if (outcome.ok) {
+    return res.status(outcome.status).json({ success: true, ...(message ? { message } : { data: outcome.data }) });
+  }
+  return res.status(outcome.status).json({
+    success: false,
+    error: outcome.error,
+    ...(outcome.current !== undefined && { current: outcome.current })
+  });
+}